@@ -1,6 +1,6 @@
 import { NextFunction, Response } from "express";
-import { ZodError } from "zod";
 import { CtxRequest } from "./suvidha";
+import { ValidationError } from "./validation";
 import { _Readonly } from "./utils.type";
 
 /**
@@ -32,15 +32,36 @@ export interface Handlers {
     onErr(err: unknown, conn: Conn, next: NextFunction): Promise<void> | void;
 
     /**
-     * Called when a Zod schema validation fails (e.g., request body, query parameters,
-     * or path parameters do not match the defined schema).
+     * Called when a schema validation fails (e.g., request body, query parameters,
+     * path parameters, headers or cookies do not match the defined schema).
      *
-     * @param {ZodError} err - The ZodError object containing details about the validation failure.
+     * @param {ValidationError} err - The ValidationError object containing the normalized validation issues, `issue.location` is the request data that failed the validation.
      * @param {Conn} conn - The Conn object containing the request (`conn.req`) and response (`conn.res`) objects.  `conn.req` is a `CtxRequest`, which extends the Express `Request` with a `context` property.
      * @param {NextFunction} next - The Express `next` function. Call `next(err)` to pass the error to the next error handling middleware or Express's default handler.
      */
     onSchemaErr(
-        err: ZodError,
+        err: ValidationError,
+        conn: Conn,
+        next: NextFunction,
+    ): Promise<void> | void;
+
+    /**
+     * Called when the value returned by the handler does not match the schema
+     * given to `Suvidha#reply`, before `onComplete`.
+     *
+     * Throwing (e.g. `Http.InternalServerError`) routes the error to `onErr`.
+     * Returning without sending a response lets the unvalidated output through
+     * to `onComplete`, which is useful to only log mismatches. If not
+     * implemented, the `ValidationError` is routed to `onErr`.
+     *
+     * @param {ValidationError} err - The ValidationError object containing details about the mismatch.
+     * @param {unknown} output - The value returned by the handler (`Protocol` objects are converted to `Http.End`).
+     * @param {Conn} conn - The `Conn` object containing the request and response objects.
+     * @param {NextFunction} next - The Express `next` function.
+     */
+    onReplyErr?(
+        err: ValidationError,
+        output: unknown,
         conn: Conn,
         next: NextFunction,
     ): Promise<void> | void;
@@ -0,0 +1,150 @@
+import { IncomingMessage } from "http";
+import { Http } from "./http";
+import { Infer, Schema } from "./validation";
+
+/**
+ * Schemas of the request body keyed by content type, e.g.
+ * `{ "application/json": A, "text/*": B }`.
+ */
+export type BodyMap = { [contentType: string]: Schema };
+
+/**
+ * The parsed request body of a `BodyMap`: a union discriminated by the
+ * content type the request matched.
+ */
+export type BodyOf<T extends BodyMap> = {
+    [K in keyof T]: { type: K; data: Infer<T[K]> };
+}[keyof T];
+
+declare const bodyMap: unique symbol;
+
+/**
+ * The request body clients send to a `BodyMap`: the input of one of its
+ * schemas, along with its content type. Only exists at the type level, to
+ * be read by `createClient`.
+ */
+export interface BodyInput<T extends BodyMap> {
+    readonly [bodyMap]: T;
+}
+
+/**
+ * Options to parse the request body.
+ *
+ * @property {number} [limit] - The maximum size of the body, in bytes.
+ * Defaults to 100 KiB.
+ */
+export interface BodyOptions {
+    limit?: number;
+}
+
+/**
+ * Returns the content type of the request, without its parameters.
+ * @param req The incoming request.
+ */
+export function contentType(req: IncomingMessage): string {
+    return (req.headers["content-type"] ?? "")
+        .split(";")[0]!
+        .trim()
+        .toLowerCase();
+}
+
+/**
+ * Finds the content type of `map` matching the content type of a request.
+ * Exact content types take precedence over wildcards like `text/*`.
+ * @param map The schemas of the body keyed by content type.
+ * @param type The content type of the request.
+ * @returns The matching key of `map`, if any.
+ */
+export function matchContentType(
+    map: BodyMap,
+    type: string,
+): string | undefined {
+    const keys = Object.keys(map);
+    return (
+        keys.find((key) => key.toLowerCase() === type) ??
+        keys.find((key) => {
+            key = key.toLowerCase();
+            return (
+                key === "*/*" ||
+                (key.endsWith("/*") && type.startsWith(key.slice(0, -1)))
+            );
+        })
+    );
+}
+
+/**
+ * Reads the raw request body.
+ * @param req The incoming request.
+ * @param limit The maximum size of the body, in bytes.
+ * @throws {Http.PayloadTooLarge} If the body exceeds `limit`.
+ */
+export function readBody(req: IncomingMessage, limit: number): Promise<Buffer> {
+    const length = Number(req.headers["content-length"]);
+    if (length > limit) {
+        // The body is drained so that the error response can still be sent
+        req.resume();
+        return Promise.reject(payloadTooLarge(limit));
+    }
+
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+        req.on("data", (chunk: Buffer) => {
+            size += chunk.length;
+            if (size <= limit) chunks.push(chunk);
+        });
+        req.on("end", () => {
+            if (size > limit) return reject(payloadTooLarge(limit));
+            resolve(Buffer.concat(chunks));
+        });
+        req.on("error", reject);
+    });
+}
+
+/**
+ * Parses a raw request body according to its content type: JSON, URL
+ * encoded forms and text are decoded, any other type is left as a `Buffer`.
+ * @param req The incoming request.
+ * @param raw The raw request body.
+ * @throws {Http.BadRequest} If the body is not valid JSON.
+ */
+export function parseBody(req: IncomingMessage, raw: Buffer): unknown {
+    const type = contentType(req);
+    const charset = /charset="?([\w-]+)"?/i.exec(
+        req.headers["content-type"] ?? "",
+    )?.[1];
+    const text = () =>
+        raw.toString(
+            charset && Buffer.isEncoding(charset.toLowerCase())
+                ? (charset.toLowerCase() as BufferEncoding)
+                : "utf8",
+        );
+
+    if (type === "application/json" || type.endsWith("+json")) {
+        try {
+            return JSON.parse(text());
+        } catch {
+            throw new Http.BadRequest("Malformed JSON body.");
+        }
+    }
+    if (type === "application/x-www-form-urlencoded") {
+        // Without a prototype, "constructor" or "__proto__" are plain keys
+        const form: Record<string, string | string[]> = Object.create(null);
+        new URLSearchParams(text()).forEach((value, key) => {
+            const prev = form[key];
+            form[key] =
+                prev === undefined
+                    ? value
+                    : ([] as string[]).concat(prev, value);
+        });
+        return form;
+    }
+    if (type.startsWith("text/")) {
+        return text();
+    }
+    return raw;
+}
+
+function payloadTooLarge(limit: number) {
+    return new Http.PayloadTooLarge(`Request body exceeds ${limit} bytes.`);
+}
@@ -0,0 +1,628 @@
+import { Response } from "express";
+import * as core from "express-serve-static-core";
+import { BodyInput, BodyMap, BodyOf, BodyOptions } from "./body";
+import { ContextOf } from "./scope";
+import { Dependencies, Injected } from "./container";
+import { ReqHeaders } from "./headers";
+import type {
+    Context,
+    CtxRequest,
+    DataRef,
+    HttpClass,
+    ReadonlyContext,
+    RequestInput,
+    Suvidha,
+} from "./suvidha";
+import { _Readonly, Merge, MergeAll, MergeOptional } from "./utils.type";
+import { Infer, InferInput, Schema } from "./validation";
+
+/**
+ * The request given to the middlewares of a bundle: the context `C` and
+ * request data the bundle provides, read-only.
+ */
+type BundleRequest<
+    C extends Context,
+    B,
+    P extends core.ParamsDictionary,
+    Q extends core.Query,
+    H extends Record<string, any>,
+    K,
+    S,
+> = CtxRequest<
+    ReadonlyContext<C>,
+    _Readonly<P>,
+    any,
+    _Readonly<B>,
+    _Readonly<Q>,
+    _Readonly<ReqHeaders<H>>,
+    _Readonly<K>,
+    _Readonly<S>,
+    unknown
+>;
+
+/**
+ * The `Suvidha` chain a step of a bundle is declared on: it provides the
+ * context `C` and the request data required and added by the bundle so far.
+ * The types the bundle doesn't depend on (files, reply, errors, ...) are
+ * open.
+ */
+type Chain<
+    C extends Context,
+    B,
+    P extends core.ParamsDictionary,
+    Q extends core.Query,
+    H extends Record<string, any>,
+    K,
+    S,
+> = Suvidha<
+    B,
+    P,
+    Q,
+    C,
+    never,
+    H,
+    K,
+    S,
+    unknown,
+    unknown,
+    HttpClass,
+    RequestInput
+>;
+
+/**
+ * A step of a bundle, declaring itself on the `Suvidha` chain it is
+ * applied to. It returns the chain, with the step declared.
+ */
+type Step<
+    C extends Context,
+    B,
+    P extends core.ParamsDictionary,
+    Q extends core.Query,
+    H extends Record<string, any>,
+    K,
+    S,
+> = (suvidha: Chain<C, B, P, Q, H, K, S>) => unknown;
+
+/**
+ * A step of any bundle: the steps of a bundle are declared on chains of
+ * different types, they are stored and applied regardless of them.
+ */
+type AnyStep = Step<any, any, any, any, any, any, any>;
+
+/**
+ * Any `Suvidha` chain, bundles are applied to chains of any type.
+ */
+type AnyChain = Suvidha<
+    any,
+    any,
+    any,
+    any,
+    any,
+    any,
+    any,
+    any,
+    any,
+    any,
+    any,
+    any
+>;
+
+declare const types: unique symbol;
+
+/**
+ * The types of a bundle: the context it requires, the context it adds, the
+ * request data it validates (and their input, see `RequestInput`) and the
+ * `Http` classes it may throw.
+ */
+export interface BundleTypes<
+    Req extends Context,
+    T extends Context,
+    B,
+    P,
+    Q,
+    H,
+    K,
+    S,
+    E extends HttpClass,
+    Built extends DataRef,
+    I extends RequestInput,
+> {
+    requires: (context: Req) => void;
+    context: T;
+    body: B;
+    params: P;
+    query: Q;
+    headers: H;
+    cookies: K;
+    signedCookies: S;
+    errors: E;
+    declared: Built;
+    input: I;
+}
+
+/**
+ * The types of any bundle.
+ */
+type AnyTypes = BundleTypes<
+    never,
+    Context,
+    unknown,
+    unknown,
+    unknown,
+    unknown,
+    unknown,
+    unknown,
+    HttpClass,
+    DataRef,
+    RequestInput
+>;
+
+/**
+ * A bundle, or a partial chain of it, as accepted by `Suvidha#apply`. Its
+ * types `X` only exist at the type level.
+ */
+export type Applicable<X extends AnyTypes = AnyTypes> = {
+    readonly [types]?: X;
+};
+
+/**
+ * The type of the request data `Ref` once a bundle of types `X` is
+ * applied: the type validated by the bundle, else `T`.
+ */
+export type Declared<
+    Ref extends keyof X & DataRef,
+    X extends AnyTypes,
+    T,
+> = Ref extends X["declared"] ? X[Ref] : T;
+
+const bundleSteps = new WeakMap<Applicable, AnyStep[]>();
+
+/**
+ * Declares the steps of a bundle on a `Suvidha` chain.
+ * @template Next The types of the chain once the bundle is applied, given
+ * by the return type of `apply()`.
+ * @param bundle The bundle.
+ * @param suvidha The `Suvidha` chain to apply the bundle to.
+ * @returns The `Suvidha` chain, with the steps of the bundle.
+ */
+export function applyBundle<Next>(bundle: Applicable, suvidha: AnyChain): Next {
+    /**
+     * Each step returns the chain with its types changed by the step, see
+     * `Suvidha#fork`: `apply()` gives the types of the last one as `Next`.
+     */
+    return bundleSteps
+        .get(bundle)!
+        .reduce<unknown>(
+            (chain, step) => step(chain as AnyChain),
+            suvidha,
+        ) as Next;
+}
+
+export interface Bundle<
+    Req extends Context,
+    T extends Context,
+    B,
+    P extends core.ParamsDictionary,
+    Q extends core.Query,
+    H extends Record<string, any>,
+    K,
+    S,
+    E extends HttpClass,
+    Built extends DataRef,
+    I extends RequestInput,
+> extends Applicable<BundleTypes<Req, T, B, P, Q, H, K, S, E, Built, I>> {}
+
+/**
+ * A reusable sequence of `Suvidha` steps: middlewares, request data schemas
+ * and `Http` errors, declared once and applied to any number of routes with
+ * `Suvidha#apply`. Like `Suvidha`, bundles are immutable: every method
+ * returns a new bundle.
+ *
+ * ```ts
+ * const tenant = Suvidha.pipe(authenticate, loadTenant);
+ * const paginated = Bundle.create().query(PageSchema);
+ *
+ * app.get("/books", suvidha().apply(tenant).apply(paginated).handler(...));
+ * ```
+ *
+ * @template Req The context the bundle requires from the chain it is applied to. Defaults to `{}`.
+ * @template T The context the middlewares of the bundle add. Defaults to `{}`.
+ * @template B The type of the request body validated by the bundle. Defaults to `any`.
+ * @template P The type of the route parameters validated by the bundle. Defaults to `core.ParamsDictionary`.
+ * @template Q The type of the query parameters validated by the bundle. Defaults to `core.Query`.
+ * @template H The type of the request headers validated by the bundle. Defaults to `{}`.
+ * @template K The type of the request cookies validated by the bundle. Defaults to `any`.
+ * @template S The type of the signed request cookies validated by the bundle. Defaults to `any`.
+ * @template E The `Http` classes the bundle may throw. Defaults to `never`.
+ * @template Built The request data validated by the bundle. Defaults to `never`.
+ * @template I The request data clients send, before validation, see `RequestInput`. Defaults to `{}`.
+ */
+export class Bundle<
+    Req extends Context = {},
+    T extends Context = {},
+    B = any,
+    P extends core.ParamsDictionary = core.ParamsDictionary,
+    Q extends core.Query = core.Query,
+    H extends Record<string, any> = {},
+    K = any,
+    S = any,
+    E extends HttpClass = never,
+    Built extends DataRef = never,
+    I extends RequestInput = {},
+> {
+    /**
+     * Creates a new bundle.
+     * @param steps The steps of the bundle.
+     */
+    constructor(steps: AnyStep[] = []) {
+        bundleSteps.set(this, steps);
+    }
+
+    /**
+     * Creates an empty bundle. This is the preferred way to instantiate the class.
+     * @template Req The context the bundle requires from the chain it is
+     * applied to, e.g. `Bundle.create<{ user: User }>()`. Defaults to `{}`.
+     * @returns A new bundle.
+     */
+    static create<Req extends Context = {}>() {
+        return new Bundle<Req>();
+    }
+
+    /**
+     * Copies the bundle, with a step added. Bundles are never modified once
+     * returned, just like `Suvidha`.
+     * @template Next The types of the copy once the step is added, given by
+     * the return type of the bundle method.
+     * @param step The step to add, declared on a chain providing the context
+     * and the request data of the bundle so far.
+     */
+    private extend<Next>(step: Step<Merge<Req, T>, B, P, Q, H, K, S>): Next {
+        const bundle = new Bundle([...bundleSteps.get(this)!, step]);
+        /**
+         * The step changes the types of the bundle (its context, request
+         * data or errors), the bundle method gives them as `Next`.
+         */
+        return bundle as unknown as Next;
+    }
+
+    /**
+     * Adds a middleware to the bundle, see `Suvidha#use`.
+     * @template U The type of the context object returned by the middleware.
+     * @param middleware The middleware, given the context required and added by the bundle.
+     * @returns A new bundle, whose context type `T` is merged with `U`.
+     */
+    use<U extends Context>(
+        middleware: (
+            req: BundleRequest<Merge<Req, T>, B, P, Q, H, K, S>,
+            res: Response,
+        ) => Promise<U> | U,
+    ): Omit<
+        Bundle<Req, Merge<T, ContextOf<U>>, B, P, Q, H, K, S, E, Built, I>,
+        Built
+    > {
+        return this.extend((suvidha) => suvidha.use(middleware));
+    }
+
+    /**
+     * Injects dependencies into the context, see `Suvidha#inject`. The chain
+     * the bundle is applied to must have a container.
+     * @template D The tokens of the dependencies.
+     * @param dependencies The tokens of the dependencies, by their name in the context.
+     * @returns A new bundle, whose context type `T` is merged with the dependencies.
+     */
+    inject<D extends Dependencies>(
+        dependencies: D,
+    ): Omit<
+        Bundle<Req, Merge<T, Injected<D>>, B, P, Q, H, K, S, E, Built, I>,
+        Built
+    > {
+        return this.extend((suvidha) => suvidha.inject(dependencies));
+    }
+
+    /**
+     * Adds a middleware to the bundle, only run when `predicate` holds, see
+     * `Suvidha#useIf`.
+     * @template U The type of the context object returned by the middleware.
+     * @param predicate Tells whether the middleware runs.
+     * @param middleware The middleware, given the context required and added by the bundle.
+     * @returns A new bundle, whose context type `T` is merged with the keys of `U` as optional keys.
+     */
+    useIf<U extends Context>(
+        predicate: (
+            req: BundleRequest<Merge<Req, T>, B, P, Q, H, K, S>,
+            res: Response,
+        ) => Promise<boolean> | boolean,
+        middleware: (
+            req: BundleRequest<Merge<Req, T>, B, P, Q, H, K, S>,
+            res: Response,
+        ) => Promise<U> | U,
+    ): Omit<
+        Bundle<
+            Req,
+            MergeOptional<T, ContextOf<U>>,
+            B,
+            P,
+            Q,
+            H,
+            K,
+            S,
+            E,
+            Built,
+            I
+        >,
+        Built
+    > {
+        return this.extend((suvidha) => suvidha.useIf(predicate, middleware));
+    }
+
+    /**
+     * Adds one of two middlewares to the bundle, see `Suvidha#useWhen`.
+     * @template U The type of the context object returned by `then`.
+     * @template V The type of the context object returned by `otherwise`.
+     * @param predicate Tells which middleware runs.
+     * @param then The middleware run when `predicate` holds.
+     * @param otherwise The middleware run when it doesn't.
+     * @returns A new bundle, whose context type `T` is merged with either `U` or `V`.
+     */
+    useWhen<U extends Context, V extends Context>(
+        predicate: (
+            req: BundleRequest<Merge<Req, T>, B, P, Q, H, K, S>,
+            res: Response,
+        ) => Promise<boolean> | boolean,
+        then: (
+            req: BundleRequest<Merge<Req, T>, B, P, Q, H, K, S>,
+            res: Response,
+        ) => Promise<U> | U,
+        otherwise: (
+            req: BundleRequest<Merge<Req, T>, B, P, Q, H, K, S>,
+            res: Response,
+        ) => Promise<V> | V,
+    ): Omit<
+        Bundle<
+            Req,
+            Merge<T, ContextOf<U>> | Merge<T, ContextOf<V>>,
+            B,
+            P,
+            Q,
+            H,
+            K,
+            S,
+            E,
+            Built,
+            I
+        >,
+        Built
+    > {
+        return this.extend((suvidha) =>
+            suvidha.useWhen(predicate, then, otherwise),
+        );
+    }
+
+    /**
+     * Adds independent middlewares to the bundle, run concurrently, see
+     * `Suvidha#useAll`.
+     * @template U The types of the context objects returned by the middlewares.
+     * @param middlewares The middlewares, given the context required and added by the bundle.
+     * @returns A new bundle, whose context type `T` is merged with each of `U`.
+     */
+    useAll<U extends Context[]>(
+        middlewares: [
+            ...{
+                [N in keyof U]: (
+                    req: BundleRequest<Merge<Req, T>, B, P, Q, H, K, S>,
+                    res: Response,
+                    signal: AbortSignal,
+                ) => Promise<U[N]> | U[N];
+            },
+        ],
+    ): Omit<
+        Bundle<
+            Req,
+            MergeAll<T, { [N in keyof U]: ContextOf<U[N]> }>,
+            B,
+            P,
+            Q,
+            H,
+            K,
+            S,
+            E,
+            Built,
+            I
+        >,
+        Built
+    > {
+        return this.extend((suvidha) => suvidha.useAll(middlewares));
+    }
+
+    /**
+     * Adds the validation of the route parameters to the bundle, see `Suvidha#params`.
+     * @template V A Zod schema type for the parameters.
+     * @param schema The Zod schema to validate the route parameters against.
+     * @returns A new bundle, excluding `params`.
+     */
+    params<V extends Schema>(
+        schema: V,
+    ): Omit<
+        Bundle<
+            Req,
+            T,
+            B,
+            Infer<V>,
+            Q,
+            H,
+            K,
+            S,
+            E,
+            Built | "params",
+            I & { params: InferInput<V> }
+        >,
+        Built | "params"
+    > {
+        return this.extend((suvidha) => suvidha.params(schema));
+    }
+
+    /**
+     * Adds the validation of the request body to the bundle, see `Suvidha#body`.
+     * @template V A Zod schema type, or a record of Zod schemas keyed by content type.
+     * @param schema The Zod schema(s) to validate the request body against.
+     * @param options Options to parse the request body, see {@link BodyOptions}.
+     * @returns A new bundle, excluding `body`.
+     */
+    body<V extends Schema | BodyMap>(
+        schema: V,
+        options?: BodyOptions,
+    ): Omit<
+        Bundle<
+            Req,
+            T,
+            V extends Schema ? Infer<V> : V extends BodyMap ? BodyOf<V> : never,
+            P,
+            Q,
+            H,
+            K,
+            S,
+            E,
+            Built | "body",
+            I & {
+                body: V extends Schema
+                    ? InferInput<V>
+                    : V extends BodyMap
+                      ? BodyInput<V>
+                      : never;
+            }
+        >,
+        Built | "body"
+    > {
+        return this.extend((suvidha) => suvidha.body(schema, options));
+    }
+
+    /**
+     * Adds the validation of the query parameters to the bundle, see `Suvidha#query`.
+     * @template V A Zod schema type for the query parameters.
+     * @param schema The Zod schema to validate the query parameters against.
+     * @returns A new bundle, excluding `query`.
+     */
+    query<V extends Schema>(
+        schema: V,
+    ): Omit<
+        Bundle<
+            Req,
+            T,
+            B,
+            P,
+            Infer<V>,
+            H,
+            K,
+            S,
+            E,
+            Built | "query",
+            I & { query: InferInput<V> }
+        >,
+        Built | "query"
+    > {
+        return this.extend((suvidha) => suvidha.query(schema));
+    }
+
+    /**
+     * Adds the validation of the request headers to the bundle, see `Suvidha#headers`.
+     * @template V A Zod schema type for the request headers.
+     * @param schema The Zod schema to validate the request headers against.
+     * @returns A new bundle, excluding `headers`.
+     */
+    headers<V extends Schema>(
+        schema: V,
+    ): Omit<
+        Bundle<Req, T, B, P, Q, Infer<V>, K, S, E, Built | "headers", I>,
+        Built | "headers"
+    > {
+        return this.extend((suvidha) => suvidha.headers(schema));
+    }
+
+    /**
+     * Adds the validation of the request cookies to the bundle, see `Suvidha#cookies`.
+     * @template V A Zod schema type for the request cookies.
+     * @param schema The Zod schema to validate the request cookies against.
+     * @returns A new bundle, excluding `cookies`.
+     */
+    cookies<V extends Schema>(
+        schema: V,
+    ): Omit<
+        Bundle<Req, T, B, P, Q, H, Infer<V>, S, E, Built | "cookies", I>,
+        Built | "cookies"
+    > {
+        return this.extend((suvidha) => suvidha.cookies(schema));
+    }
+
+    /**
+     * Adds the validation of the signed request cookies to the bundle, see
+     * `Suvidha#signedCookies`.
+     * @template V A Zod schema type for the signed request cookies.
+     * @param schema The Zod schema to validate the signed request cookies against.
+     * @param secret The secret (or secrets, to support rotation) used to sign the cookies.
+     * @returns A new bundle, excluding `signedCookies`.
+     */
+    signedCookies<V extends Schema>(
+        schema: V,
+        secret?: string | string[],
+    ): Omit<
+        Bundle<Req, T, B, P, Q, H, K, Infer<V>, E, Built | "signedCookies", I>,
+        Built | "signedCookies"
+    > {
+        return this.extend((suvidha) => suvidha.signedCookies(schema, secret));
+    }
+
+    /**
+     * Declares the `Http` errors the bundle may throw, see `Suvidha#throws`.
+     * @template V The `Http` classes the bundle may throw.
+     * @param errors The `Http` classes the bundle may throw.
+     * @returns A new bundle.
+     */
+    throws<V extends HttpClass[]>(
+        ...errors: V
+    ): Omit<Bundle<Req, T, B, P, Q, H, K, S, E | V[number], Built, I>, Built> {
+        return this.extend((suvidha) => suvidha.throws(...errors));
+    }
+
+    /**
+     * Adds the steps of another bundle to the bundle. The context it requires
+     * must be provided by this bundle, and it can't validate the request data
+     * this bundle already validates.
+     * @param bundle The bundle to add.
+     * @returns A new bundle, with the steps of both bundles.
+     */
+    apply<
+        X extends BundleTypes<
+            Merge<Req, T>,
+            Context,
+            unknown,
+            // `any`: passed on to the constrained params, query and headers
+            any,
+            any,
+            any,
+            unknown,
+            unknown,
+            HttpClass,
+            Exclude<DataRef, Built>,
+            RequestInput
+        >,
+    >(
+        bundle: Applicable<X>,
+    ): Omit<
+        Bundle<
+            Req,
+            Merge<T, X["context"]>,
+            Declared<"body", X, B>,
+            Declared<"params", X, P>,
+            Declared<"query", X, Q>,
+            Declared<"headers", X, H>,
+            Declared<"cookies", X, K>,
+            Declared<"signedCookies", X, S>,
+            E | X["errors"],
+            Built | X["declared"],
+            I & X["input"]
+        >,
+        Built | X["declared"]
+    > {
+        return this.extend((suvidha) => applyBundle(bundle, suvidha));
+    }
+}
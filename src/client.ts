@@ -0,0 +1,319 @@
+import * as core from "express-serve-static-core";
+import { BodyInput } from "./body";
+import { HttpClass, RouteTypes, SuvidhaHandler } from "./suvidha";
+import { InferInput, Location } from "./validation";
+
+export type ClientMethod = "get" | "post" | "put" | "patch" | "delete";
+
+/**
+ * The body of a response formatted by `defaultFormatter`.
+ */
+export type Envelope<T, S extends "success" | "fail" | "error"> = {
+    status: S;
+    data: T;
+    meta: unknown;
+};
+
+/**
+ * The body of the validation error responses of `DefaultHandlers`.
+ */
+export interface ValidationErrorBody {
+    message: string;
+    errors: Partial<Record<Location, unknown[]>>;
+}
+
+/**
+ * A successful (2xx) response, carrying the reply of the route handler.
+ */
+export type ClientSuccess<T extends RouteTypes> = {
+    ok: true;
+    status: number;
+    headers: Headers;
+    body: Envelope<T["reply"], "success">;
+};
+
+/**
+ * An error response with the status `N`.
+ */
+export type ClientFailure<N extends number, T> = {
+    ok: false;
+    status: N;
+    headers: Headers;
+    body: Envelope<T, Outcome<N>>;
+};
+
+/**
+ * The error responses of a route, discriminated by their status: the `Http`
+ * classes declared with `Suvidha#throws`, the validation errors and the
+ * internal server errors of `DefaultHandlers`.
+ */
+export type ClientError<T extends RouteTypes> =
+    | (T["errors"] extends infer E extends HttpClass
+          ? E extends HttpClass
+              ? ClientFailure<StatusOf<E>, unknown>
+              : never
+          : never)
+    | ClientFailure<400 | 422, ValidationErrorBody>
+    | ClientFailure<500, unknown>;
+
+export type ClientResponse<T extends RouteTypes> =
+    ClientSuccess<T> | ClientError<T>;
+
+/**
+ * The request data of a route, typed by the input of its schemas. The params
+ * of routes without a `params()` schema are typed from their path. The body
+ * of routes given a schema per content type is sent along with its
+ * `contentType`.
+ */
+export type ClientRequest<Path extends string, T extends RouteTypes> = Field<
+    "params",
+    string extends keyof T["params"] ? core.RouteParameters<Path> : T["params"]
+> &
+    Field<"query", T["query"]> &
+    BodyField<T["body"]> & { headers?: Record<string, string> };
+
+/**
+ * The route types of the request handler(s) of a route. For a list of
+ * request handlers, the last one built by `Suvidha` is used.
+ */
+export type RouteOf<H> = H extends readonly [...infer Rest, infer Last]
+    ? [TypesOf<Last>] extends [never]
+        ? RouteOf<Rest>
+        : TypesOf<Last>
+    : [TypesOf<H>] extends [never]
+      ? RouteTypes
+      : TypesOf<H>;
+
+/**
+ * A typed HTTP client of the routes `Routes`, keyed by their method and path,
+ * e.g. `{ "POST /books": typeof createBook }`.
+ */
+export type Client<Routes> = {
+    [M in ClientMethod]: <Path extends PathOf<Routes, M>>(
+        path: Path,
+        ...request: RequestArgs<Path, RouteOf<Routes[Key<M, Path, Routes>]>>
+    ) => Promise<ClientResponse<RouteOf<Routes[Key<M, Path, Routes>]>>>;
+};
+
+/**
+ * Options to configure the client.
+ *
+ * @property {string} baseUrl - The URL the route paths are relative to.
+ * @property {Record<string, string>} [headers] - Headers sent with every request.
+ * @property {typeof fetch} [fetch] - The `fetch` implementation, defaults to the global `fetch`.
+ */
+export interface ClientOptions {
+    baseUrl: string;
+    headers?: Record<string, string>;
+    fetch?: typeof fetch;
+}
+
+type Outcome<N extends number> = number extends N
+    ? "fail" | "error"
+    : `${N}` extends `5${string}`
+      ? "error"
+      : "fail";
+
+type StatusOf<E extends HttpClass> =
+    `${ReturnType<InstanceType<E>["getStatus"]>}` extends `${infer N extends number}`
+        ? N
+        : number;
+
+type TypesOf<H> =
+    H extends SuvidhaHandler<any, any, any, any, infer T extends RouteTypes>
+        ? T
+        : never;
+
+type PathOf<Routes, M extends ClientMethod> = {
+    [K in keyof Routes]: K extends `${Uppercase<M>} ${infer Path}`
+        ? Path
+        : never;
+}[keyof Routes];
+
+type Key<
+    M extends ClientMethod,
+    Path extends string,
+    Routes,
+> = `${Uppercase<M>} ${Path}` & keyof Routes;
+
+type Field<K extends string, V> = {} extends V
+    ? { [_ in K]?: V }
+    : { [_ in K]: V };
+
+type BodyField<B> = 0 extends 1 & B
+    ? Field<"body", B>
+    : B extends BodyInput<infer M>
+      ? {
+            [K in keyof M]: { contentType: K; body: InferInput<M[K]> };
+        }[keyof M]
+      : Field<"body", B>;
+
+type RequestArgs<Path extends string, T extends RouteTypes> =
+    {} extends ClientRequest<Path, T>
+        ? [request?: ClientRequest<Path, T>]
+        : [request: ClientRequest<Path, T>];
+
+type AnyRequest = {
+    params?: Record<string, unknown>;
+    query?: unknown;
+    body?: unknown;
+    contentType?: string;
+    headers?: Record<string, string>;
+};
+
+/**
+ * Creates a `fetch` based HTTP client of routes built by `Suvidha`. The
+ * request data are typed by the schemas of the routes, and the responses
+ * by their replies and declared errors, wrapped in the envelope of
+ * `defaultFormatter`. Only types are shared with the server.
+ *
+ * ```ts
+ * // server
+ * export type Api = { "POST /books": typeof createBook };
+ *
+ * // client
+ * const client = createClient<Api>({ baseUrl: "http://localhost:3000" });
+ * const res = await client.post("/books", { body: { name: "Dune" } });
+ * if (res.ok) res.body.data; // the reply of createBook
+ * ```
+ *
+ * Error responses are resolved, not rejected: check `ok`, then `status`.
+ * @template Routes The request handlers of the routes, keyed by method and path.
+ * @param options Options to configure the client, see {@link ClientOptions}.
+ */
+export function createClient<Routes>(options: ClientOptions): Client<Routes> {
+    const baseUrl = options.baseUrl.replace(/\/+$/, "");
+
+    const send =
+        (method: ClientMethod) =>
+        async (path: string, request: AnyRequest = {}) => {
+            const headers: Record<string, string> = {
+                ...options.headers,
+                ...request.headers,
+            };
+            const init: RequestInit = { method: method.toUpperCase(), headers };
+            if (request.body !== undefined) {
+                init.body = encodeBody(
+                    request.body,
+                    headers,
+                    request.contentType,
+                );
+            }
+
+            const url =
+                baseUrl +
+                interpolate(path, request.params ?? {}) +
+                search(request.query);
+            const response = await (options.fetch ?? fetch)(url, init);
+            return {
+                ok: response.ok,
+                status: response.status,
+                headers: response.headers,
+                body: await readBody(response),
+            };
+        };
+
+    return {
+        get: send("get"),
+        post: send("post"),
+        put: send("put"),
+        patch: send("patch"),
+        delete: send("delete"),
+    } as Client<Routes>;
+}
+
+/**
+ * Substitutes the parameters of a path in Express.js syntax, e.g.
+ * `/books/:id` with `{ id: 7 }` is `/books/7`.
+ * @throws {Error} If a required parameter is missing.
+ */
+function interpolate(path: string, params: Record<string, unknown>): string {
+    return path.replace(
+        /(\/?):(\w+)(\?)?/g,
+        (_, slash: string, name: string, optional?: string) => {
+            const value = params[name];
+            if (value === undefined) {
+                if (optional) return "";
+                throw new Error(
+                    `Suvidha: the route parameter "${name}" of ${path} is missing.`,
+                );
+            }
+            return slash + encodeURIComponent(String(value));
+        },
+    );
+}
+
+/**
+ * Serializes a query into a query string. Arrays are sent as repeated keys,
+ * and nested objects with brackets (`filter[author]=...`).
+ */
+function search(query: unknown): string {
+    const string = toSearchParams(query).toString();
+    return string ? `?${string}` : "";
+}
+
+function toSearchParams(data: unknown): URLSearchParams {
+    const params = new URLSearchParams();
+    const append = (key: string, value: unknown) => {
+        if (value === undefined || value === null) return;
+        if (value instanceof Date) {
+            params.append(key, value.toISOString());
+        } else if (Array.isArray(value)) {
+            value.forEach((item) => append(key, item));
+        } else if (typeof value === "object") {
+            for (const [name, item] of Object.entries(value)) {
+                append(key ? `${key}[${name}]` : name, item);
+            }
+        } else {
+            params.append(key, String(value));
+        }
+    };
+    append("", data);
+    return params;
+}
+
+/**
+ * Encodes a request body according to its content type, JSON by default:
+ * URL encoded forms like the query, and text as is. Bodies `fetch` accepts
+ * as is (`FormData`, `URLSearchParams`, `Blob` or binary data) are left as
+ * is, `fetch` then sets their content type unless it is given.
+ */
+function encodeBody(
+    body: unknown,
+    headers: Record<string, string>,
+    contentType?: string,
+): BodyInit {
+    const typed = Object.keys(headers).some((key) =>
+        /^content-type$/i.test(key),
+    );
+    const form = typeof FormData !== "undefined" && body instanceof FormData;
+    if (
+        form ||
+        body instanceof URLSearchParams ||
+        (typeof Blob !== "undefined" && body instanceof Blob) ||
+        body instanceof ArrayBuffer ||
+        ArrayBuffer.isView(body)
+    ) {
+        // The boundary of multipart bodies is set by `fetch`
+        if (contentType && !typed && !form) {
+            headers["Content-Type"] = contentType;
+        }
+        return body;
+    }
+
+    const type = contentType ?? "application/json";
+    if (!typed) headers["Content-Type"] = type;
+    if (/^application\/x-www-form-urlencoded$/i.test(type)) {
+        return toSearchParams(body);
+    }
+    if (/^text\//i.test(type)) {
+        return String(body);
+    }
+    return JSON.stringify(body);
+}
+
+async function readBody(response: Response): Promise<unknown> {
+    const text = await response.text();
+    const type = response.headers.get("Content-Type") ?? "";
+    return text && /[/+]json\b/.test(type) ? JSON.parse(text) : text;
+}
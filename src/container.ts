@@ -0,0 +1,268 @@
+import { Request } from "express";
+import { defer, disposerOf, hasDisposer } from "./scope";
+
+/**
+ * Identifies a dependency that isn't a class, e.g. a configuration object.
+ *
+ * ```ts
+ * const Config = new InjectionToken<AppConfig>("Config");
+ * ```
+ * @template T The type of the dependency.
+ */
+export class InjectionToken<T> {
+    /** Never set, carries the type of the dependency */
+    private readonly type?: T;
+
+    /**
+     * @param description The name of the dependency, for the error messages.
+     */
+    constructor(readonly description: string) {}
+}
+
+/**
+ * Identifies a dependency: a class, or an {@link InjectionToken}.
+ */
+export type Token<T = any> =
+    InjectionToken<T> | (abstract new (...args: any[]) => T);
+
+/**
+ * The type of the dependency identified by a token.
+ */
+export type Resolved<K> =
+    K extends InjectionToken<infer T>
+        ? T
+        : K extends abstract new (...args: any[]) => infer T
+          ? T
+          : never;
+
+/**
+ * The dependencies given to `Suvidha#inject`, by their name in the context.
+ */
+export type Dependencies = Record<string, Token>;
+
+/**
+ * The context added by `Suvidha#inject`.
+ */
+export type Injected<D extends Dependencies> = {
+    [K in keyof D]: Resolved<D[K]>;
+};
+
+/**
+ * Resolves the dependencies a factory depends on.
+ */
+export type Resolve = <T>(token: Token<T>) => Promise<T>;
+
+/**
+ * Creates a dependency. Request-scoped factories are given the request.
+ */
+export type Factory<T> = (resolve: Resolve, req: Request) => T | Promise<T>;
+
+type Lifetime = "singleton" | "scoped";
+
+interface Registration {
+    lifetime: Lifetime;
+    factory: Factory<unknown>;
+}
+
+function nameOf(token: Token) {
+    return token instanceof InjectionToken ? token.description : token.name;
+}
+
+function reject(message: string) {
+    return Promise.reject(new Error(`Suvidha: ${message}`));
+}
+
+/**
+ * Creates the dependencies injected into the context with `Suvidha#inject`,
+ * lazily: a dependency is only created once a route injects it, or a
+ * dependency of it.
+ *
+ * - Singletons are created once for the whole app.
+ * - Request-scoped dependencies are created once per request. When they
+ *   implement `Symbol.asyncDispose` (or `Symbol.dispose`), it is called once
+ *   the request ends, with its outcome, see `Outcome`.
+ *
+ * ```ts
+ * const container = Container.create()
+ *     .singleton(Db, () => Db.connect(DATABASE_URL))
+ *     .scoped(BookRepo, async (resolve, req) =>
+ *         new BookRepo(await resolve(Db), req.headers["x-tenant-id"]),
+ *     );
+ *
+ * const suvidha = () => Suvidha.create(new DefaultHandlers(), { container });
+ *
+ * app.get(
+ *     "/books",
+ *     suvidha()
+ *         .inject({ books: BookRepo })
+ *         .handler((req) => req.context.books.list()),
+ * );
+ * ```
+ */
+export class Container {
+    private readonly registrations = new Map<Token, Registration>();
+    private readonly overrides = new Map<Token, Factory<unknown>>();
+    private singletons = new Map<Token, Promise<unknown>>();
+    private readonly scopes = new WeakMap<
+        Request,
+        Map<Token, Promise<unknown>>
+    >();
+
+    /**
+     * Creates an empty container.
+     */
+    static create() {
+        return new Container();
+    }
+
+    /**
+     * Registers a dependency created once for the whole app. It can only
+     * depend on other singletons.
+     * @param token The token of the dependency.
+     * @param factory Creates the dependency.
+     * @returns The container, for chaining.
+     */
+    singleton<T>(
+        token: Token<T>,
+        factory: (resolve: Resolve) => T | Promise<T>,
+    ) {
+        return this.register(token, "singleton", factory);
+    }
+
+    /**
+     * Registers a dependency created once per request.
+     * @param token The token of the dependency.
+     * @param factory Creates the dependency, given the request.
+     * @returns The container, for chaining.
+     */
+    scoped<T>(token: Token<T>, factory: Factory<T>) {
+        return this.register(token, "scoped", factory);
+    }
+
+    private register(token: Token, lifetime: Lifetime, factory: Factory<any>) {
+        this.registrations.set(token, { lifetime, factory });
+        return this;
+    }
+
+    /**
+     * Replaces the factory of a dependency, e.g. with a test double, until
+     * `restore()`. The dependency keeps its lifetime. The singletons created
+     * so far are created again, so that they depend on the override.
+     * @param token The token of the dependency.
+     * @param factory Creates the dependency instead.
+     * @returns The container, for chaining.
+     */
+    override<T>(token: Token<T>, factory: Factory<T>) {
+        this.overrides.set(token, factory);
+        this.singletons = new Map();
+        return this;
+    }
+
+    /**
+     * Removes the overrides, see `override()`.
+     * @returns The container, for chaining.
+     */
+    restore() {
+        this.overrides.clear();
+        this.singletons = new Map();
+        return this;
+    }
+
+    /**
+     * Resolves a dependency.
+     * @param token The token of the dependency.
+     * @param req The request, required by request-scoped dependencies.
+     * @returns The dependency. Rejects if the dependency isn't registered,
+     * depends on itself, or is request-scoped and no request is given.
+     */
+    resolve<T>(token: Token<T>, req?: Request): Promise<T> {
+        return this.create(token, req, []);
+    }
+
+    /**
+     * Creates the middleware of `Suvidha#inject`.
+     * @param dependencies The dependencies, by their name in the context.
+     * @returns A middleware adding the dependencies to the context.
+     */
+    inject<D extends Dependencies>(dependencies: D) {
+        const inject = async (req: Request) => {
+            const entries = await Promise.all(
+                Object.entries(dependencies).map(
+                    async ([name, token]) =>
+                        [name, await this.resolve(token, req)] as const,
+                ),
+            );
+            return Object.fromEntries(entries) as Injected<D>;
+        };
+        return inject;
+    }
+
+    private create<T>(
+        token: Token<T>,
+        req: Request | undefined,
+        path: Token[],
+    ): Promise<T> {
+        const registration = this.registrations.get(token);
+        if (!registration) {
+            return reject(
+                `${nameOf(token)} is not registered in the container.`,
+            );
+        }
+        if (path.includes(token)) {
+            const cycle = [...path, token].map(nameOf).join(" -> ");
+            return reject(`circular dependency, ${cycle}.`);
+        }
+
+        const { lifetime } = registration;
+        if (lifetime === "scoped" && !req) {
+            const dependent = path[path.length - 1];
+            return reject(
+                dependent
+                    ? `the singleton ${nameOf(dependent)} can't depend on the request-scoped ${nameOf(token)}.`
+                    : `${nameOf(token)} is request-scoped, it can only be resolved for a request.`,
+            );
+        }
+
+        const cache =
+            lifetime === "singleton" ? this.singletons : this.scopeOf(req!);
+        let instance = cache.get(token);
+        if (!instance) {
+            const factory = this.overrides.get(token) ?? registration.factory;
+            const scope = lifetime === "scoped" ? req : undefined;
+            const resolve: Resolve = (dependency) =>
+                this.create(dependency, scope, [...path, token]);
+            instance = (async () => factory(resolve, scope!))();
+            if (lifetime === "scoped") {
+                instance = instance.then((instance) =>
+                    this.dispose(req!, instance),
+                );
+            }
+            cache.set(token, instance);
+            /* A failed creation is tried again by the next resolution */
+            instance.catch(() => cache.delete(token));
+        }
+        /* The caches are keyed by token, the instance has its type */
+        return instance as Promise<T>;
+    }
+
+    private scopeOf(req: Request) {
+        let scope = this.scopes.get(req);
+        if (!scope) {
+            scope = new Map();
+            this.scopes.set(req, scope);
+        }
+        return scope;
+    }
+
+    /**
+     * Disposes a request-scoped dependency once the request ends, if it
+     * implements `Symbol.asyncDispose` or `Symbol.dispose`.
+     * @returns The dependency.
+     */
+    private dispose<T>(req: Request, instance: T): T {
+        if (hasDisposer(instance)) {
+            defer(req, disposerOf(instance), instance);
+        }
+        return instance;
+    }
+}
@@ -0,0 +1,105 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+export type Cookies = Record<string, unknown>;
+
+/**
+ * Parses the `Cookie` request header into an object, the same way
+ * `cookie-parser` does: values are URI decoded, and values prefixed
+ * with `j:` are parsed as JSON.
+ * @param header The value of the `Cookie` request header.
+ */
+export function parseCookies(header: string | undefined): Cookies {
+    /* Without a prototype, "toString" or "__proto__" are plain cookies */
+    const cookies: Cookies = Object.create(null);
+    if (!header) {
+        return cookies;
+    }
+
+    for (const pair of header.split(";")) {
+        const index = pair.indexOf("=");
+        if (index === -1) {
+            continue;
+        }
+
+        const name = pair.slice(0, index).trim();
+        if (!name || name in cookies) {
+            // The first occurrence of a cookie wins
+            continue;
+        }
+
+        let value = pair.slice(index + 1).trim();
+        if (value.startsWith('"') && value.endsWith('"')) {
+            value = value.slice(1, -1);
+        }
+        cookies[name] = jsonCookie(decode(value));
+    }
+    return cookies;
+}
+
+/**
+ * Extracts the signed cookies (prefixed with `s:`) out of `cookies`, and
+ * verifies their signature against `secrets`. Just like `cookie-parser`,
+ * cookies with an invalid signature are set to `false`.
+ * @param cookies The parsed cookies. Signed cookies are removed from it.
+ * @param secrets The secrets used to sign the cookies. Every secret is tried
+ * in order, to support secret rotation.
+ */
+export function signedCookies(cookies: Cookies, secrets: string[]): Cookies {
+    const signed: Cookies = Object.create(null);
+    for (const [name, value] of Object.entries(cookies)) {
+        if (typeof value !== "string" || !value.startsWith("s:")) {
+            continue;
+        }
+
+        delete cookies[name];
+        signed[name] = unsign(value.slice(2), secrets);
+    }
+    return signed;
+}
+
+function unsign(value: string, secrets: string[]): unknown {
+    const index = value.lastIndexOf(".");
+    if (index === -1) {
+        return false;
+    }
+
+    const data = value.slice(0, index);
+    const actual = Buffer.from(value);
+    for (const secret of secrets) {
+        const expected = Buffer.from(`${data}.${sign(data, secret)}`);
+        if (
+            expected.length === actual.length &&
+            timingSafeEqual(expected, actual)
+        ) {
+            return jsonCookie(data);
+        }
+    }
+    return false;
+}
+
+function sign(data: string, secret: string): string {
+    return createHmac("sha256", secret)
+        .update(data)
+        .digest("base64")
+        .replace(/=+$/, "");
+}
+
+function decode(value: string): string {
+    try {
+        return decodeURIComponent(value);
+    } catch (_) {
+        return value;
+    }
+}
+
+function jsonCookie(value: string): unknown {
+    if (!value.startsWith("j:")) {
+        return value;
+    }
+
+    try {
+        return JSON.parse(value.slice(2));
+    } catch (_) {
+        return value;
+    }
+}
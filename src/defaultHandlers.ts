@@ -1,8 +1,8 @@
-import { ZodError } from "zod";
 import { Conn, Handlers } from "./Handlers";
 import { isProtocol, Http, StatusCodes, Meta } from "./http";
 import util from "util";
 import { NextFunction } from "express";
+import { Location, ValidationError, ValidationIssue } from "./validation";
 
 type ResonseFormat = {
     status: "error" | "success" | "fail";
@@ -32,11 +32,35 @@ export const defaultFormatter: Formatter = (status, body, meta) => {
     } satisfies ResonseFormat;
 };
 
+/**
+ * Maps a validation issue before it is sent to the client, e.g. to localize
+ * its message or to hide internals in production. Returning `undefined`
+ * omits the issue.
+ */
+export type IssueMapper = (issue: ValidationIssue) => unknown;
+
+export type DefaultHandlersOptions = {
+    /**
+     * Maps every validation issue before it is sent. Defaults to sending the
+     * issues as is.
+     */
+    issueMapper?: IssueMapper;
+
+    /**
+     * Status code of validation error responses, 400 (`Http.BadRequest`) or
+     * 422 (`Http.UnprocessableEntity`). Defaults to 400.
+     */
+    schemaErrStatus?: 400 | 422;
+};
+
 export class DefaultHandlers implements Handlers {
-    constructor(private readonly fmt: Formatter = defaultFormatter) {}
+    constructor(
+        private readonly fmt: Formatter = defaultFormatter,
+        private readonly options: DefaultHandlersOptions = {},
+    ) {}
 
-    static create(fmt?: Formatter) {
-        return new DefaultHandlers(fmt);
+    static create(fmt?: Formatter, options?: DefaultHandlersOptions) {
+        return new DefaultHandlers(fmt, options);
     }
 
     private setHeaders(conn: Conn, headers: Record<string, string>): void {
@@ -67,13 +91,40 @@ export class DefaultHandlers implements Handlers {
     }
 
     onSchemaErr(
-        _err: ZodError,
+        err: ValidationError,
         _conn: Conn,
         _next: NextFunction,
     ): Promise<void> | void {
-        throw Http.BadRequest.body(
-            "Data provided does not meet the required format.",
-        );
+        const { issueMapper = (issue) => issue, schemaErrStatus = 400 } =
+            this.options;
+
+        const errors: Partial<Record<Location, unknown[]>> = {};
+        for (const [location, issues] of Object.entries(err.byLocation())) {
+            const mapped = issues
+                .map((issue) => issueMapper(issue))
+                .filter((issue) => issue !== undefined);
+            if (mapped.length > 0) {
+                errors[location as Location] = mapped;
+            }
+        }
+
+        const body = {
+            message: "Data provided does not meet the required format.",
+            errors,
+        };
+        throw schemaErrStatus === 422
+            ? Http.UnprocessableEntity.body(body)
+            : Http.BadRequest.body(body);
+    }
+
+    onReplyErr(err: ValidationError, output: unknown): Promise<void> | void {
+        console.error({
+            cause: err.issues,
+            output,
+            description:
+                "Suvidha: handler output does not match the reply schema.",
+        });
+        throw new Http.InternalServerError();
     }
 
     onComplete(output: unknown, conn: Conn): Promise<void> | void {
@@ -0,0 +1,58 @@
+import { IncomingHttpHeaders } from "http";
+
+/**
+ * Lowercases the keys of T, the same way Node.js normalizes header names
+ */
+export type LowercaseKeys<T> = {
+    [K in keyof T as K extends string ? Lowercase<K> : K]: T[K];
+};
+
+/**
+ * Request headers after validation: the parsed headers take precedence over
+ * the raw `IncomingHttpHeaders`, every other header is left untouched.
+ */
+export type ReqHeaders<H> = {
+    [
+        K in keyof IncomingHttpHeaders as K extends keyof LowercaseKeys<H>
+            ? never
+            : K
+    ]: IncomingHttpHeaders[K];
+} & LowercaseKeys<H>;
+
+/**
+ * Returns a view of the request headers where header names are looked up
+ * case-insensitively, so that a schema can declare `"X-Tenant-Id"` while
+ * Node.js stores it as `"x-tenant-id"`.
+ * @param headers The raw request headers.
+ */
+export function headersView(headers: IncomingHttpHeaders): IncomingHttpHeaders {
+    return new Proxy(headers, {
+        get(target, key, receiver) {
+            if (typeof key === "string") {
+                key = key.toLowerCase();
+            }
+            return Reflect.get(target, key, receiver);
+        },
+    });
+}
+
+/**
+ * Merges the validated headers into the raw request headers. Header names
+ * of the validated output are lowercased.
+ * @param headers The raw request headers.
+ * @param parsed The output of the headers schema.
+ */
+export function mergeHeaders(
+    headers: IncomingHttpHeaders,
+    parsed: unknown,
+): IncomingHttpHeaders {
+    if (typeof parsed !== "object" || parsed === null) {
+        return headers;
+    }
+
+    const merged: Record<string, unknown> = { ...headers };
+    for (const [key, value] of Object.entries(parsed)) {
+        merged[key.toLowerCase()] = value;
+    }
+    return merged as IncomingHttpHeaders;
+}
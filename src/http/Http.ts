@@ -39,8 +39,10 @@ export namespace Http {
      * status code, headers, and metadata. You typically won't use `Http.End` directly,
      * but it's important to understand its structure as it's the foundation for
      * other more specific response classes.
+     *
+     * @template S The type of the HTTP status code, e.g. `404` for `Http.NotFound`.
      */
-    export class End {
+    export class End<S extends number = number> {
         /**
          * @param {Protocol} protocol - The protocol object containing the response details.
          */
@@ -49,6 +51,16 @@ export namespace Http {
             this.protocol.meta = this.protocol.meta ?? {};
         }
 
+        /**
+         * Sets the body of the response.
+         * @param {Protocol["body"]} body - The response body.
+         * @returns {Http.End} - The current Http.End instance for chaining.
+         */
+        body(body: Protocol["body"]): Http.End {
+            this.protocol.body = body;
+            return this;
+        }
+
         /**
          * Sets the metadata for the response.
          * @param {Meta} meta - The metadata object.
@@ -82,10 +94,10 @@ export namespace Http {
 
         /**
          * Gets the HTTP status code.
-         * @returns {number} - The HTTP status code.
+         * @returns {S} - The HTTP status code.
          */
-        getStatus(): number {
-            return this.protocol.status;
+        getStatus(): S {
+            return this.protocol.status as S;
         }
         /**
          * Gets the response body.
@@ -113,7 +125,7 @@ export namespace Http {
     }
 
     // 1xx Informational
-    export class Continue extends End {
+    export class Continue extends End<StatusCodes.CONTINUE> {
         constructor(body: Protocol["body"] = "Continue") {
             const protocol = {
                 body,
@@ -127,7 +139,7 @@ export namespace Http {
         }
     }
 
-    export class SwitchingProtocols extends End {
+    export class SwitchingProtocols extends End<StatusCodes.SWITCHING_PROTOCOLS> {
         constructor(body: Protocol["body"] = "Switching Protocols") {
             const protocol = {
                 body,
@@ -141,7 +153,7 @@ export namespace Http {
         }
     }
 
-    export class Processing extends End {
+    export class Processing extends End<StatusCodes.PROCESSING> {
         constructor(body: Protocol["body"] = "Processing") {
             const protocol = {
                 body,
@@ -155,7 +167,7 @@ export namespace Http {
         }
     }
 
-    export class EarlyHints extends End {
+    export class EarlyHints extends End<StatusCodes.EARLY_HINTS> {
         constructor(body: Protocol["body"] = "Early Hints") {
             const protocol = {
                 body,
@@ -169,7 +181,7 @@ export namespace Http {
         }
     }
     // 2xx Success
-    export class Ok extends End {
+    export class Ok extends End<StatusCodes.OK> {
         constructor(body: Protocol["body"]) {
             const protocol = {
                 body,
@@ -183,7 +195,7 @@ export namespace Http {
         }
     }
 
-    export class Created extends End {
+    export class Created extends End<StatusCodes.CREATED> {
         constructor(body: Protocol["body"]) {
             const protocol = {
                 body,
@@ -197,7 +209,7 @@ export namespace Http {
         }
     }
 
-    export class Accepted extends End {
+    export class Accepted extends End<StatusCodes.ACCEPTED> {
         constructor(body: Protocol["body"]) {
             const protocol = {
                 body,
@@ -211,7 +223,7 @@ export namespace Http {
         }
     }
 
-    export class NonAuthoritativeInformation extends End {
+    export class NonAuthoritativeInformation extends End<StatusCodes.NON_AUTHORITATIVE_INFORMATION> {
         constructor(body: Protocol["body"]) {
             const protocol = {
                 body,
@@ -225,7 +237,7 @@ export namespace Http {
         }
     }
 
-    export class NoContent extends End {
+    export class NoContent extends End<StatusCodes.NO_CONTENT> {
         constructor(body: Protocol["body"]) {
             const protocol = {
                 body,
@@ -239,7 +251,7 @@ export namespace Http {
         }
     }
 
-    export class ResetContent extends End {
+    export class ResetContent extends End<StatusCodes.RESET_CONTENT> {
         constructor(body: Protocol["body"]) {
             const protocol = {
                 body,
@@ -253,7 +265,7 @@ export namespace Http {
         }
     }
 
-    export class PartialContent extends End {
+    export class PartialContent extends End<StatusCodes.PARTIAL_CONTENT> {
         constructor(body: Protocol["body"]) {
             const protocol = {
                 body,
@@ -267,7 +279,7 @@ export namespace Http {
         }
     }
 
-    export class MultiStatus extends End {
+    export class MultiStatus extends End<StatusCodes.MULTI_STATUS> {
         constructor(body: Protocol["body"]) {
             const protocol = {
                 body,
@@ -281,7 +293,7 @@ export namespace Http {
         }
     }
 
-    export class AlreadyReported extends End {
+    export class AlreadyReported extends End<StatusCodes.ALREADY_REPORTED> {
         constructor(body: Protocol["body"]) {
             const protocol = {
                 body,
@@ -295,7 +307,7 @@ export namespace Http {
         }
     }
 
-    export class ImUsed extends End {
+    export class ImUsed extends End<StatusCodes.IM_USED> {
         constructor(body: Protocol["body"]) {
             const protocol = {
                 body,
@@ -310,7 +322,7 @@ export namespace Http {
     }
 
     // 3xx Redirection
-    export class MultipleChoices extends End {
+    export class MultipleChoices extends End<StatusCodes.MULTIPLE_CHOICES> {
         constructor(body: Protocol["body"]) {
             const protocol = {
                 body,
@@ -324,7 +336,7 @@ export namespace Http {
         }
     }
 
-    export class MovedPermanently extends End {
+    export class MovedPermanently extends End<StatusCodes.MOVED_PERMANENTLY> {
         constructor(body: Protocol["body"]) {
             const protocol = {
                 body,
@@ -338,7 +350,7 @@ export namespace Http {
         }
     }
 
-    export class Found extends End {
+    export class Found extends End<StatusCodes.FOUND> {
         constructor(body: Protocol["body"]) {
             const protocol = {
                 body,
@@ -352,7 +364,7 @@ export namespace Http {
         }
     }
 
-    export class SeeOther extends End {
+    export class SeeOther extends End<StatusCodes.SEE_OTHER> {
         constructor(body: Protocol["body"]) {
             const protocol = {
                 body,
@@ -366,7 +378,7 @@ export namespace Http {
         }
     }
 
-    export class NotModified extends End {
+    export class NotModified extends End<StatusCodes.NOT_MODIFIED> {
         constructor(body: Protocol["body"]) {
             const protocol = {
                 body,
@@ -380,7 +392,7 @@ export namespace Http {
         }
     }
 
-    export class UseProxy extends End {
+    export class UseProxy extends End<StatusCodes.USE_PROXY> {
         constructor(body: Protocol["body"]) {
             const protocol = {
                 body,
@@ -394,7 +406,7 @@ export namespace Http {
         }
     }
 
-    export class TemporaryRedirect extends End {
+    export class TemporaryRedirect extends End<StatusCodes.TEMPORARY_REDIRECT> {
         constructor(body: Protocol["body"]) {
             const protocol = {
                 body,
@@ -408,7 +420,7 @@ export namespace Http {
         }
     }
 
-    export class PermanentRedirect extends End {
+    export class PermanentRedirect extends End<StatusCodes.PERMANENT_REDIRECT> {
         constructor(body: Protocol["body"]) {
             const protocol = {
                 body,
@@ -423,7 +435,7 @@ export namespace Http {
     }
 
     // 4xx Client Error
-    export class BadRequest extends End {
+    export class BadRequest extends End<StatusCodes.BAD_REQUEST> {
         constructor(body: Protocol["body"] = "Bad Request") {
             const protocol = {
                 body,
@@ -437,7 +449,7 @@ export namespace Http {
         }
     }
 
-    export class Unauthorized extends End {
+    export class Unauthorized extends End<StatusCodes.UNAUTHORIZED> {
         constructor(body: Protocol["body"] = "Unauthorized") {
             const protocol = {
                 body,
@@ -451,7 +463,7 @@ export namespace Http {
         }
     }
 
-    export class PaymentRequired extends End {
+    export class PaymentRequired extends End<StatusCodes.PAYMENT_REQUIRED> {
         constructor(body: Protocol["body"] = "Payment Required") {
             const protocol = {
                 body,
@@ -465,7 +477,7 @@ export namespace Http {
         }
     }
 
-    export class Forbidden extends End {
+    export class Forbidden extends End<StatusCodes.FORBIDDEN> {
         constructor(body: Protocol["body"] = "Forbidden") {
             const protocol = {
                 body,
@@ -479,7 +491,7 @@ export namespace Http {
         }
     }
 
-    export class NotFound extends End {
+    export class NotFound extends End<StatusCodes.NOT_FOUND> {
         constructor(body: Protocol["body"] = "Not Found") {
             const protocol = {
                 body,
@@ -493,7 +505,7 @@ export namespace Http {
         }
     }
 
-    export class MethodNotAllowed extends End {
+    export class MethodNotAllowed extends End<StatusCodes.METHOD_NOT_ALLOWED> {
         constructor(body: Protocol["body"] = "Method Not Allowed") {
             const protocol = {
                 body,
@@ -507,7 +519,7 @@ export namespace Http {
         }
     }
 
-    export class NotAcceptable extends End {
+    export class NotAcceptable extends End<StatusCodes.NOT_ACCEPTABLE> {
         constructor(body: Protocol["body"] = "Not Acceptable") {
             const protocol = {
                 body,
@@ -521,7 +533,7 @@ export namespace Http {
         }
     }
 
-    export class ProxyAuthenticationRequired extends End {
+    export class ProxyAuthenticationRequired extends End<StatusCodes.PROXY_AUTHENTICATION_REQUIRED> {
         constructor(body: Protocol["body"] = "Proxy Authentication Required") {
             const protocol = {
                 body,
@@ -535,7 +547,7 @@ export namespace Http {
         }
     }
 
-    export class RequestTimeout extends End {
+    export class RequestTimeout extends End<StatusCodes.REQUEST_TIMEOUT> {
         constructor(body: Protocol["body"] = "Request Timeout") {
             const protocol = {
                 body,
@@ -549,7 +561,7 @@ export namespace Http {
         }
     }
 
-    export class Conflict extends End {
+    export class Conflict extends End<StatusCodes.CONFLICT> {
         constructor(body: Protocol["body"] = "Conflict") {
             const protocol = {
                 body,
@@ -563,7 +575,7 @@ export namespace Http {
         }
     }
 
-    export class Gone extends End {
+    export class Gone extends End<StatusCodes.GONE> {
         constructor(body: Protocol["body"] = "Gone") {
             const protocol = {
                 body,
@@ -577,7 +589,7 @@ export namespace Http {
         }
     }
 
-    export class LengthRequired extends End {
+    export class LengthRequired extends End<StatusCodes.LENGTH_REQUIRED> {
         constructor(body: Protocol["body"] = "Length Required") {
             const protocol = {
                 body,
@@ -591,7 +603,7 @@ export namespace Http {
         }
     }
 
-    export class PreconditionFailed extends End {
+    export class PreconditionFailed extends End<StatusCodes.PRECONDITION_FAILED> {
         constructor(body: Protocol["body"] = "Precondition Failed") {
             const protocol = {
                 body,
@@ -605,7 +617,7 @@ export namespace Http {
         }
     }
 
-    export class PayloadTooLarge extends End {
+    export class PayloadTooLarge extends End<StatusCodes.PAYLOAD_TOO_LARGE> {
         constructor(body: Protocol["body"] = "Payload Too Large") {
             const protocol = {
                 body,
@@ -619,7 +631,7 @@ export namespace Http {
         }
     }
 
-    export class UriTooLong extends End {
+    export class UriTooLong extends End<StatusCodes.URI_TOO_LONG> {
         constructor(body: Protocol["body"] = "URI Too Long") {
             const protocol = {
                 body,
@@ -633,7 +645,7 @@ export namespace Http {
         }
     }
 
-    export class UnsupportedMediaType extends End {
+    export class UnsupportedMediaType extends End<StatusCodes.UNSUPPORTED_MEDIA_TYPE> {
         constructor(body: Protocol["body"] = "Unsupported Media Type") {
             const protocol = {
                 body,
@@ -647,7 +659,7 @@ export namespace Http {
         }
     }
 
-    export class RangeNotSatisfiable extends End {
+    export class RangeNotSatisfiable extends End<StatusCodes.RANGE_NOT_SATISFIABLE> {
         constructor(body: Protocol["body"] = "Range Not Satisfiable") {
             const protocol = {
                 body,
@@ -661,7 +673,7 @@ export namespace Http {
         }
     }
 
-    export class ExpectationFailed extends End {
+    export class ExpectationFailed extends End<StatusCodes.EXPECTATION_FAILED> {
         constructor(body: Protocol["body"] = "Expectation Failed") {
             const protocol = {
                 body,
@@ -675,7 +687,7 @@ export namespace Http {
         }
     }
 
-    export class ImATeapot extends End {
+    export class ImATeapot extends End<StatusCodes.IM_A_TEAPOT> {
         constructor(body: Protocol["body"] = "I'm a Teapot") {
             const protocol = {
                 body,
@@ -689,7 +701,7 @@ export namespace Http {
         }
     }
 
-    export class MisdirectedRequest extends End {
+    export class MisdirectedRequest extends End<StatusCodes.MISDIRECTED_REQUEST> {
         constructor(body: Protocol["body"] = "Misdirected Request") {
             const protocol = {
                 body,
@@ -703,7 +715,7 @@ export namespace Http {
         }
     }
 
-    export class UnprocessableEntity extends End {
+    export class UnprocessableEntity extends End<StatusCodes.UNPROCESSABLE_ENTITY> {
         constructor(body: Protocol["body"] = "Unprocessable Entity") {
             const protocol = {
                 body,
@@ -717,7 +729,7 @@ export namespace Http {
         }
     }
 
-    export class Locked extends End {
+    export class Locked extends End<StatusCodes.LOCKED> {
         constructor(body: Protocol["body"] = "Locked") {
             const protocol = {
                 body,
@@ -731,7 +743,7 @@ export namespace Http {
         }
     }
 
-    export class FailedDependency extends End {
+    export class FailedDependency extends End<StatusCodes.FAILED_DEPENDENCY> {
         constructor(body: Protocol["body"] = "Failed Dependency") {
             const protocol = {
                 body,
@@ -745,7 +757,7 @@ export namespace Http {
         }
     }
 
-    export class TooEarly extends End {
+    export class TooEarly extends End<StatusCodes.TOO_EARLY> {
         constructor(body: Protocol["body"] = "Too Early") {
             const protocol = {
                 body,
@@ -759,7 +771,7 @@ export namespace Http {
         }
     }
 
-    export class UpgradeRequired extends End {
+    export class UpgradeRequired extends End<StatusCodes.UPGRADE_REQUIRED> {
         constructor(body: Protocol["body"] = "Upgrade Required") {
             const protocol = {
                 body,
@@ -773,7 +785,7 @@ export namespace Http {
         }
     }
 
-    export class PreconditionRequired extends End {
+    export class PreconditionRequired extends End<StatusCodes.PRECONDITION_REQUIRED> {
         constructor(body: Protocol["body"] = "Precondition Required") {
             const protocol = {
                 body,
@@ -787,7 +799,7 @@ export namespace Http {
         }
     }
 
-    export class TooManyRequests extends End {
+    export class TooManyRequests extends End<StatusCodes.TOO_MANY_REQUESTS> {
         constructor(body: Protocol["body"] = "Too Many Requests") {
             const protocol = {
                 body,
@@ -801,7 +813,7 @@ export namespace Http {
         }
     }
 
-    export class RequestHeaderFieldsTooLarge extends End {
+    export class RequestHeaderFieldsTooLarge extends End<StatusCodes.REQUEST_HEADER_FIELDS_TOO_LARGE> {
         constructor(
             body: Protocol["body"] = "Request Header Fields Too Large",
         ) {
@@ -817,7 +829,7 @@ export namespace Http {
         }
     }
 
-    export class UnavailableForLegalReasons extends End {
+    export class UnavailableForLegalReasons extends End<StatusCodes.UNAVAILABLE_FOR_LEGAL_REASONS> {
         constructor(body: Protocol["body"] = "Unavailable for Legal Reasons") {
             const protocol = {
                 body,
@@ -832,7 +844,7 @@ export namespace Http {
     }
 
     // 5xx Server Error
-    export class InternalServerError extends End {
+    export class InternalServerError extends End<StatusCodes.INTERNAL_SERVER_ERROR> {
         constructor(body: Protocol["body"] = "Internal Server Error") {
             const protocol = {
                 body,
@@ -846,7 +858,7 @@ export namespace Http {
         }
     }
 
-    export class NotImplemented extends End {
+    export class NotImplemented extends End<StatusCodes.NOT_IMPLEMENTED> {
         constructor(body: Protocol["body"] = "Not Implemented") {
             const protocol = {
                 body,
@@ -860,7 +872,7 @@ export namespace Http {
         }
     }
 
-    export class BadGateway extends End {
+    export class BadGateway extends End<StatusCodes.BAD_GATEWAY> {
         constructor(body: Protocol["body"] = "Bad Gateway") {
             const protocol = {
                 body,
@@ -874,7 +886,7 @@ export namespace Http {
         }
     }
 
-    export class ServiceUnavailable extends End {
+    export class ServiceUnavailable extends End<StatusCodes.SERVICE_UNAVAILABLE> {
         constructor(body: Protocol["body"] = "Service Unavailable") {
             const protocol = {
                 body,
@@ -888,7 +900,7 @@ export namespace Http {
         }
     }
 
-    export class GatewayTimeout extends End {
+    export class GatewayTimeout extends End<StatusCodes.GATEWAY_TIMEOUT> {
         constructor(body: Protocol["body"] = "Gateway Timeout") {
             const protocol = {
                 body,
@@ -902,7 +914,7 @@ export namespace Http {
         }
     }
 
-    export class HttpVersionNotSupported extends End {
+    export class HttpVersionNotSupported extends End<StatusCodes.HTTP_VERSION_NOT_SUPPORTED> {
         constructor(body: Protocol["body"] = "HTTP Version Not Supported") {
             const protocol = {
                 body,
@@ -916,7 +928,7 @@ export namespace Http {
         }
     }
 
-    export class VariantAlsoNegotiates extends End {
+    export class VariantAlsoNegotiates extends End<StatusCodes.VARIANT_ALSO_NEGOTIATES> {
         constructor(body: Protocol["body"] = "Variant Also Negotiates") {
             const protocol = {
                 body,
@@ -930,7 +942,7 @@ export namespace Http {
         }
     }
 
-    export class InsufficientStorage extends End {
+    export class InsufficientStorage extends End<StatusCodes.INSUFFICIENT_STORAGE> {
         constructor(body: Protocol["body"] = "Insufficient Storage") {
             const protocol = {
                 body,
@@ -944,7 +956,7 @@ export namespace Http {
         }
     }
 
-    export class LoopDetected extends End {
+    export class LoopDetected extends End<StatusCodes.LOOP_DETECTED> {
         constructor(body: Protocol["body"] = "Loop Detected") {
             const protocol = {
                 body,
@@ -958,7 +970,7 @@ export namespace Http {
         }
     }
 
-    export class NotExtended extends End {
+    export class NotExtended extends End<StatusCodes.NOT_EXTENDED> {
         constructor(body: Protocol["body"] = "Not Extended") {
             const protocol = {
                 body,
@@ -972,7 +984,7 @@ export namespace Http {
         }
     }
 
-    export class NetworkAuthenticationRequired extends End {
+    export class NetworkAuthenticationRequired extends End<StatusCodes.NETWORK_AUTHENTICATION_REQUIRED> {
         constructor(
             body: Protocol["body"] = "Network Authentication Required",
         ) {
@@ -989,7 +1001,7 @@ export namespace Http {
     }
 
     // Widely used non-standard codes (server-related)
-    export class BandwidthLimitExceeded extends End {
+    export class BandwidthLimitExceeded extends End<StatusCodes.BANDWIDTH_LIMIT_EXCEEDED> {
         constructor(body: Protocol["body"] = "Bandwidth Limit Exceeded") {
             const protocol = {
                 body,
@@ -1003,7 +1015,7 @@ export namespace Http {
         }
     }
 
-    export class SiteIsOverloaded extends End {
+    export class SiteIsOverloaded extends End<StatusCodes.SITE_IS_OVERLOADED> {
         constructor(body: Protocol["body"] = "Site Is Overloaded") {
             const protocol = {
                 body,
@@ -1017,7 +1029,7 @@ export namespace Http {
         }
     }
 
-    export class SiteIsFrozen extends End {
+    export class SiteIsFrozen extends End<StatusCodes.SITE_IS_FROZEN> {
         constructor(body: Protocol["body"] = "Site Is Frozen") {
             const protocol = {
                 body,
@@ -1031,7 +1043,7 @@ export namespace Http {
         }
     }
 
-    export class NetworkReadTimeoutError extends End {
+    export class NetworkReadTimeoutError extends End<StatusCodes.NETWORK_READ_TIMEOUT_ERROR> {
         constructor(body: Protocol["body"] = "Network Read Timeout Error") {
             const protocol = {
                 body,
@@ -1045,7 +1057,7 @@ export namespace Http {
         }
     }
 
-    export class NetworkConnectTimeoutError extends End {
+    export class NetworkConnectTimeoutError extends End<StatusCodes.NETWORK_CONNECT_TIMEOUT_ERROR> {
         constructor(body: Protocol["body"] = "Network Connect Timeout Error") {
             const protocol = {
                 body,
@@ -1,4 +1,44 @@
 export * from "./suvidha";
+export { Bundle } from "./bundle";
+export type { Applicable, BundleTypes } from "./bundle";
+export type { ContextOf, Disposer, Outcome } from "./scope";
+export type { DeepReadonly } from "./utils.type";
+export { Container, InjectionToken } from "./container";
+export type {
+    Dependencies,
+    Factory,
+    Injected,
+    Resolve,
+    Resolved,
+    Token,
+} from "./container";
 export * from "./defaultHandlers";
 export * from "./http";
 export * from "./Handlers";
+export { registerAdapter, ValidationError } from "./validation";
+export type {
+    CustomSchemas,
+    Infer,
+    InferInput,
+    Issue,
+    Location,
+    Schema,
+    SchemaAdapter,
+    StandardSchemaV1,
+    ValidationIssue,
+    ValidationResult,
+} from "./validation";
+export type {
+    FileField,
+    FilesOf,
+    FilesSpec,
+    MultipartOptions,
+    UploadedFile,
+} from "./multipart";
+export type { BodyInput, BodyMap, BodyOf, BodyOptions } from "./body";
+export type { CoerceQueryOptions } from "./query";
+export * from "./mock";
+export * from "./registry";
+export * from "./openapi";
+export * from "./introspect";
+export * from "./client";
@@ -0,0 +1,119 @@
+import * as core from "express-serve-static-core";
+import { describeHandler, RouteDescription } from "./suvidha";
+
+/**
+ * A request handler built by `Suvidha`, found in an Express.js app.
+ *
+ * @property {string} method - The HTTP method of the route, lowercased.
+ * @property {string} path - The full path of the route, in Express.js syntax.
+ * @property {RouteDescription} description - The description of the chain
+ * the request handler was built from.
+ */
+export interface SuvidhaRoute {
+    method: string;
+    path: string;
+    description: RouteDescription;
+}
+
+/**
+ * A layer of a router stack. Express.js 4 matches the path a router is
+ * mounted at with `regexp`, Express.js 5 doesn't keep it, but flags the
+ * routers mounted at `/` with `slash`.
+ */
+type Layer = {
+    name: string;
+    handle: Function & { stack?: Layer[] };
+    regexp?: RegExp & { fast_slash?: boolean };
+    slash?: boolean;
+    keys: { name: string | number }[];
+    method?: string;
+    route?: { path: string; stack: Layer[] };
+};
+
+type Stack = { stack: Layer[] };
+
+/**
+ * Where the router stack of an Express.js app or router is: `stack` on
+ * routers, `_router` on Express.js 4 apps (created with their first route,
+ * and reading their `router` throws), and `router` on Express.js 5 apps.
+ */
+type Routable = Partial<Stack> & {
+    _router?: Stack;
+    router?: Stack | string;
+    lazyrouter?: Function;
+};
+
+/**
+ * Walks the router stack of an Express.js app (or router), nested routers
+ * included, and describes every request handler built by `Suvidha`.
+ *
+ * Express.js 5 doesn't keep the path routers are mounted at, except `/`:
+ * describe such a router on its own, with the path it is mounted at.
+ * @param app The Express.js app or router.
+ * @param prefix The path the app or router is mounted at.
+ * @returns The `Suvidha` routes, in the order they are matched.
+ * @throws {Error} If a router is mounted at a path Express.js 5 didn't keep.
+ */
+export function describeApp(
+    app: core.Express | core.Router,
+    prefix = "",
+): SuvidhaRoute[] {
+    /* The types of Express.js don't describe its internals */
+    const stack = stackOf(app as unknown as Routable);
+    return stack ? collect(stack, prefix) : [];
+}
+
+function stackOf(app: Routable): Layer[] | undefined {
+    if (app.stack) return app.stack;
+    if (app._router || app.lazyrouter) return app._router?.stack;
+    return typeof app.router === "string" ? undefined : app.router?.stack;
+}
+
+function collect(stack: Layer[], prefix: string): SuvidhaRoute[] {
+    const routes: SuvidhaRoute[] = [];
+    for (const layer of stack) {
+        if (layer.route) {
+            const path = prefix + layer.route.path;
+            for (const handler of layer.route.stack) {
+                const description = describeHandler(handler.handle);
+                if (description) {
+                    routes.push({
+                        method: handler.method ?? "all",
+                        path,
+                        description,
+                    });
+                }
+            }
+        } else if (layer.name === "router" && layer.handle.stack) {
+            routes.push(
+                ...collect(layer.handle.stack, prefix + mountPath(layer)),
+            );
+        }
+    }
+    return routes;
+}
+
+/**
+ * Recovers the path a router was mounted at from the regular expression
+ * Express.js matches it with, e.g. `/^\/books(?:\/([^/]+?))\/?(?=\/|$)/i`
+ * is `/books/:id`.
+ */
+function mountPath(layer: Layer): string {
+    const { regexp } = layer;
+    if (layer.slash || regexp?.fast_slash) return "";
+    if (!regexp) {
+        throw new Error(
+            "Suvidha: Express.js 5 doesn't keep the path a router is mounted at, describe it with describeApp(router, path) instead.",
+        );
+    }
+
+    let key = 0;
+    return regexp.source
+        .replace(/^\^/, "")
+        .replace(/\\\/\?\(\?=\\\/\|\$\)$/, "")
+        .replace(/\(\?:\\\/\(\[\^\\?\/\]\+\?\)\)/g, () => {
+            const param = layer.keys[key++];
+            return `/:${param?.name ?? key - 1}`;
+        })
+        .replace(/\\(.)/g, "$1");
+}
@@ -0,0 +1,466 @@
+import { z } from "zod";
+import { isObject, nativeEnumValues } from "./utils";
+import { InferInput, Schema, zodAdapter } from "./validation";
+
+/**
+ * Options to generate examples.
+ *
+ * @property {number} [seed] - The seed of the generated values: the same
+ * seed always generates the same values. Defaults to `1`.
+ */
+export interface ExampleOptions {
+    seed?: number;
+}
+
+/**
+ * Generates an example value accepted by a Zod schema, e.g. a request payload
+ * for docs and tests, or a fake reply. The constraints of the schema are
+ * respected: string formats (`email`, `uuid`, `url`, `datetime`, ...) and
+ * lengths, number bounds, enums, array lengths, ... Refinements are retried
+ * until they pass, regular expressions are not supported.
+ * @param schema The Zod schema of the example.
+ * @param options Options of the generation, see {@link ExampleOptions}.
+ * @returns The example, as accepted by the schema (before transforms).
+ * @throws {Error} If the schema is not a Zod schema, or has no value.
+ */
+export function generateExample<T extends Schema>(
+    schema: T,
+    options: ExampleOptions = {},
+): InferInput<T> {
+    if (!zodAdapter.accepts(schema)) {
+        throw new Error(
+            "Suvidha: examples can only be generated from Zod schemas.",
+        );
+    }
+    const generator = new Generator(random(options.seed ?? 1));
+    return generator.generate(schema, 0) as InferInput<T>;
+}
+
+const words = [
+    "lorem",
+    "ipsum",
+    "dolor",
+    "sit",
+    "amet",
+    "consectetur",
+    "adipiscing",
+    "elit",
+    "sed",
+    "do",
+    "eiusmod",
+    "tempor",
+];
+
+/**
+ * How deep recursive schemas are generated. Past it, the smallest values are
+ * generated (empty arrays, omitted optionals, ...) so that generation ends.
+ */
+const maxDepth = 3;
+
+/**
+ * How many times a refined value is generated before giving up.
+ */
+const maxAttempts = 20;
+
+type NumberCheck =
+    | { kind: "int" | "finite" }
+    | { kind: "min" | "max"; value: number; inclusive: boolean }
+    | { kind: "multipleOf"; value: number };
+
+class Generator {
+    constructor(private readonly random: () => number) {}
+
+    generate(schema: z.ZodTypeAny, depth: number): unknown {
+        const def = schema._def;
+        const next = (schema: z.ZodTypeAny) => this.generate(schema, depth);
+        const shallow = depth > maxDepth;
+
+        switch (def.typeName) {
+            case z.ZodFirstPartyTypeKind.ZodString:
+                return this.string(def.checks);
+            case z.ZodFirstPartyTypeKind.ZodNumber:
+                return this.number(def.checks);
+            case z.ZodFirstPartyTypeKind.ZodBigInt:
+                return BigInt(
+                    this.number([
+                        { kind: "int" },
+                        ...(def.checks as z.ZodBigIntCheck[]).map(
+                            (check) =>
+                                ({
+                                    ...check,
+                                    value: Number(check.value),
+                                }) as NumberCheck,
+                        ),
+                    ]),
+                );
+            case z.ZodFirstPartyTypeKind.ZodBoolean:
+                return this.random() < 0.5;
+            case z.ZodFirstPartyTypeKind.ZodDate:
+                return this.date(def.checks);
+            case z.ZodFirstPartyTypeKind.ZodNull:
+                return null;
+            case z.ZodFirstPartyTypeKind.ZodUndefined:
+            case z.ZodFirstPartyTypeKind.ZodVoid:
+                return undefined;
+            case z.ZodFirstPartyTypeKind.ZodNaN:
+                return NaN;
+            case z.ZodFirstPartyTypeKind.ZodSymbol:
+                return Symbol(this.word());
+            case z.ZodFirstPartyTypeKind.ZodLiteral:
+                return def.value;
+            case z.ZodFirstPartyTypeKind.ZodEnum:
+                return this.pick(def.values);
+            case z.ZodFirstPartyTypeKind.ZodNativeEnum:
+                return this.pick(nativeEnumValues(def.values));
+
+            case z.ZodFirstPartyTypeKind.ZodObject: {
+                const object: Record<string, unknown> = {};
+                const shape: z.ZodRawShape = def.shape();
+                for (const [key, field] of Object.entries(shape)) {
+                    const value = next(field);
+                    if (value !== undefined) object[key] = value;
+                }
+                return object;
+            }
+            case z.ZodFirstPartyTypeKind.ZodRecord:
+            case z.ZodFirstPartyTypeKind.ZodMap: {
+                const entries: [unknown, unknown][] = [];
+                for (let i = shallow ? 0 : this.int(1, 2); i > 0; i--) {
+                    entries.push([next(def.keyType), next(def.valueType)]);
+                }
+                return def.typeName === z.ZodFirstPartyTypeKind.ZodMap
+                    ? new Map(entries)
+                    : Object.fromEntries(entries);
+            }
+            case z.ZodFirstPartyTypeKind.ZodArray: {
+                const length = this.length(
+                    def.exactLength?.value ?? def.minLength?.value,
+                    def.exactLength?.value ?? def.maxLength?.value,
+                    shallow,
+                );
+                return Array.from({ length }, () => next(def.type));
+            }
+            case z.ZodFirstPartyTypeKind.ZodSet: {
+                const size = this.length(
+                    def.minSize?.value,
+                    def.maxSize?.value,
+                    shallow,
+                );
+                const set = new Set<unknown>();
+                for (let i = 0; set.size < size && i < maxAttempts; i++) {
+                    set.add(next(def.valueType));
+                }
+                return set;
+            }
+            case z.ZodFirstPartyTypeKind.ZodTuple:
+                return (def.items as z.ZodTypeAny[]).map(next);
+
+            case z.ZodFirstPartyTypeKind.ZodUnion:
+            case z.ZodFirstPartyTypeKind.ZodDiscriminatedUnion: {
+                const options: z.ZodTypeAny[] = Array.from(def.options);
+                return next(shallow ? options[0]! : this.pick(options));
+            }
+            case z.ZodFirstPartyTypeKind.ZodIntersection: {
+                const left = next(def.left);
+                const right = next(def.right);
+                return isObject(left) && isObject(right)
+                    ? { ...left, ...right }
+                    : right;
+            }
+
+            case z.ZodFirstPartyTypeKind.ZodOptional:
+                return shallow ? undefined : next(def.innerType);
+            case z.ZodFirstPartyTypeKind.ZodNullable:
+                return shallow ? null : next(def.innerType);
+            case z.ZodFirstPartyTypeKind.ZodDefault:
+            case z.ZodFirstPartyTypeKind.ZodCatch:
+            case z.ZodFirstPartyTypeKind.ZodReadonly:
+                return next(def.innerType);
+            case z.ZodFirstPartyTypeKind.ZodBranded:
+                return next(def.type);
+            case z.ZodFirstPartyTypeKind.ZodPromise:
+                return Promise.resolve(next(def.type));
+            case z.ZodFirstPartyTypeKind.ZodPipeline:
+                return next(def.in);
+            case z.ZodFirstPartyTypeKind.ZodEffects:
+                if (def.effect.type !== "refinement") {
+                    return next(def.schema);
+                }
+                for (let i = 0; i < maxAttempts; i++) {
+                    const value = next(def.schema);
+                    if (schema.safeParse(value).success) return value;
+                }
+                throw new Error(
+                    `Suvidha: could not generate a value passing the refinement in ${maxAttempts} attempts.`,
+                );
+            case z.ZodFirstPartyTypeKind.ZodLazy:
+                if (depth > 10 * maxDepth) {
+                    throw new Error(
+                        "Suvidha: the recursive schema has no finite value.",
+                    );
+                }
+                return this.generate(def.getter(), depth + 1);
+
+            case z.ZodFirstPartyTypeKind.ZodNever:
+                throw new Error("Suvidha: z.never() has no values.");
+            case z.ZodFirstPartyTypeKind.ZodFunction:
+                return () => undefined;
+            default:
+                // any and unknown
+                return this.word();
+        }
+    }
+
+    private string(checks: z.ZodStringCheck[]): string {
+        let min = 0;
+        let max = Infinity;
+        let prefix = "";
+        let infix = "";
+        let suffix = "";
+        let format: z.ZodStringCheck | undefined;
+        let letterCase: "toLowerCase" | "toUpperCase" | undefined;
+        for (const check of checks) {
+            switch (check.kind) {
+                case "min":
+                    min = check.value;
+                    break;
+                case "max":
+                    max = check.value;
+                    break;
+                case "length":
+                    min = max = check.value;
+                    break;
+                case "startsWith":
+                    prefix = check.value;
+                    break;
+                case "endsWith":
+                    suffix = check.value;
+                    break;
+                case "includes":
+                    infix = check.value;
+                    break;
+                case "toLowerCase":
+                case "toUpperCase":
+                    letterCase = check.kind;
+                    break;
+                case "trim":
+                case "regex":
+                    break;
+                default:
+                    format = check;
+            }
+        }
+
+        let value = format
+            ? this.format(format)
+            : prefix +
+              infix +
+              this.text(
+                  this.length(
+                      Math.max(
+                          min,
+                          prefix.length + infix.length + suffix.length,
+                      ),
+                      max,
+                      false,
+                      12,
+                  ) -
+                      (prefix.length + infix.length + suffix.length),
+              ) +
+              suffix;
+        if (letterCase) value = value[letterCase]();
+        return value;
+    }
+
+    private format(check: z.ZodStringCheck): string {
+        switch (check.kind) {
+            case "email":
+                return `${this.word()}.${this.int(1, 99)}@example.com`;
+            case "url":
+                return `https://example.com/${this.word()}`;
+            case "uuid": {
+                // A version 4 UUID
+                const hex = this.chars(32, "0123456789abcdef");
+                const variant = this.pick("89ab");
+                return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-4${hex.slice(13, 16)}-${variant}${hex.slice(17, 20)}-${hex.slice(20)}`;
+            }
+            case "nanoid":
+                return this.chars(21, alphanumeric + "_-");
+            case "cuid":
+                return "c" + this.chars(24, lowercase);
+            case "cuid2":
+                return (
+                    this.pick("abcdefghijklmnopqrstuvwxyz") +
+                    this.chars(23, lowercase)
+                );
+            case "ulid":
+                return (
+                    this.pick("01234567") +
+                    this.chars(25, "0123456789ABCDEFGHJKMNPQRSTVWXYZ")
+                );
+            case "datetime": {
+                const iso = this.date([]).toISOString();
+                return check.precision === null
+                    ? iso
+                    : withPrecision(iso, check.precision);
+            }
+            case "date":
+                return this.date([]).toISOString().slice(0, 10);
+            case "time": {
+                const time = this.date([]).toISOString().slice(11, 23);
+                return check.precision === null
+                    ? time
+                    : withPrecision(time, check.precision);
+            }
+            case "duration":
+                return `P${this.int(1, 30)}D`;
+            case "ip":
+                return check.version === "v6"
+                    ? `2001:db8::${this.int(1, 0xffff).toString(16)}`
+                    : `192.0.2.${this.int(1, 254)}`;
+            case "base64":
+                return Buffer.from(this.word()).toString("base64");
+            case "emoji":
+                return this.pick(["😀", "🎉", "🚀", "📚"]);
+            default:
+                return this.word();
+        }
+    }
+
+    private number(checks: NumberCheck[]): number {
+        let int = false;
+        let min = -Infinity;
+        let max = Infinity;
+        let minExclusive = false;
+        let maxExclusive = false;
+        let step: number | undefined;
+        for (const check of checks) {
+            switch (check.kind) {
+                case "int":
+                    int = true;
+                    break;
+                case "min":
+                    min = check.value;
+                    minExclusive = !check.inclusive;
+                    break;
+                case "max":
+                    max = check.value;
+                    maxExclusive = !check.inclusive;
+                    break;
+                case "multipleOf":
+                    step = check.value;
+                    break;
+            }
+        }
+
+        const lo = isFinite(min)
+            ? min
+            : isFinite(max)
+              ? Math.min(0, max - 100)
+              : 0;
+        const hi = isFinite(max) ? max : lo + 100;
+
+        step = step ?? (int ? 1 : undefined);
+        if (step !== undefined) {
+            let first = Math.ceil(lo / step) * step;
+            let last = Math.floor(hi / step) * step;
+            if (minExclusive && first <= min) first += step;
+            if (maxExclusive && last >= max) last -= step;
+            const count = Math.max(0, Math.floor((last - first) / step));
+            return Number((first + this.int(0, count) * step).toPrecision(12));
+        }
+
+        const value = round(lo + this.random() * (hi - lo));
+        return (minExclusive && value <= min) || (maxExclusive && value >= max)
+            ? (lo + hi) / 2
+            : value;
+    }
+
+    private date(checks: z.ZodDateCheck[]): Date {
+        const min = checks.find((check) => check.kind === "min")?.value;
+        const max = checks.find((check) => check.kind === "max")?.value;
+        const year = 365 * 24 * 60 * 60 * 1000;
+        const lo =
+            min ?? (max !== undefined ? max - year : Date.UTC(2024, 0, 1));
+        const hi = max ?? lo + year;
+        return new Date(lo + Math.floor(this.random() * (hi - lo)));
+    }
+
+    /**
+     * Picks a length in `[min, max]`, `max` defaulting to a few more than `min`.
+     */
+    private length(
+        min = 0,
+        max = Infinity,
+        shallow: boolean,
+        spread = 2,
+    ): number {
+        if (shallow) return min;
+        const lo = Math.max(min, Math.min(1, max));
+        return this.int(lo, Math.max(lo, Math.min(max, lo + spread)));
+    }
+
+    private text(length: number): string {
+        let text = "";
+        while (text.length < length) {
+            text += (text ? " " : "") + this.word();
+        }
+        return text.slice(0, length).replace(/ $/, "x");
+    }
+
+    private word(): string {
+        return this.pick(words);
+    }
+
+    private chars(length: number, alphabet: string): string {
+        let chars = "";
+        for (let i = 0; i < length; i++) chars += this.pick(alphabet);
+        return chars;
+    }
+
+    private int(min: number, max: number): number {
+        return min + Math.floor(this.random() * (max - min + 1));
+    }
+
+    private pick<T>(values: ArrayLike<T>): T {
+        return values[this.int(0, values.length - 1)]!;
+    }
+}
+
+const lowercase = "0123456789abcdefghijklmnopqrstuvwxyz";
+const alphanumeric =
+    "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz";
+
+/**
+ * A seeded pseudo-random number generator (mulberry32), returning numbers
+ * in `[0, 1)`.
+ */
+function random(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Rounds away the floating point errors of generated numbers.
+ */
+function round(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+/**
+ * Sets the number of fractional second digits of an ISO time, e.g.
+ * `12:30:05.123Z` with a precision of `0` is `12:30:05Z`.
+ */
+function withPrecision(time: string, precision: number): string {
+    return time.replace(/\.(\d+)/, (_, digits: string) =>
+        precision === 0
+            ? ""
+            : "." + digits.padEnd(precision, "0").slice(0, precision),
+    );
+}
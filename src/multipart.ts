@@ -0,0 +1,442 @@
+import { IncomingMessage } from "http";
+import { Readable } from "stream";
+import { Http } from "./http";
+import { Issue } from "./validation";
+
+/**
+ * A file uploaded with a `multipart/form-data` request.
+ *
+ * @property {string} fieldName - The name of the form field.
+ * @property {string} filename - The name of the file on the client.
+ * @property {string} mimeType - The MIME type declared by the client.
+ * @property {number} size - The size of the file, in bytes.
+ * @property {Buffer} buffer - The content of the file.
+ */
+export interface UploadedFile {
+    fieldName: string;
+    filename: string;
+    mimeType: string;
+    size: number;
+    buffer: Buffer;
+
+    /**
+     * Returns a stream of the content of the file, e.g. to pipe it to a
+     * storage service.
+     */
+    stream(): Readable;
+}
+
+/**
+ * The limits of a file field.
+ *
+ * @property {number} [maxCount] - The maximum number of files. Defaults to 1.
+ * @property {number} [maxSize] - The maximum size of each file, in bytes.
+ * Defaults to the `maxFileSize` option, see {@link MultipartOptions}.
+ * @property {string[]} [mimeTypes] - The accepted MIME types, wildcards like
+ * `image/*` are supported. Defaults to any type.
+ * @property {boolean} [required] - Whether at least one file is required.
+ * Defaults to `false`.
+ */
+export interface FileField {
+    maxCount?: number;
+    maxSize?: number;
+    mimeTypes?: string[];
+    required?: boolean;
+}
+
+/**
+ * The file fields of a `multipart/form-data` request, keyed by field name.
+ */
+export type FilesSpec = Record<string, FileField>;
+
+/**
+ * The uploaded files of the fields declared in `T`.
+ */
+export type FilesOf<T extends FilesSpec> = { [K in keyof T]: UploadedFile[] };
+
+/**
+ * Options to parse `multipart/form-data` requests.
+ *
+ * @property {number} [maxFieldSize] - The maximum size of each non-file
+ * field, in bytes. Defaults to 1 MiB.
+ * @property {number} [maxFileSize] - The maximum size of each file of the
+ * fields without `maxSize`, in bytes. Defaults to 10 MiB.
+ * @property {number} [maxParts] - The maximum number of parts, files and
+ * other fields. Defaults to 100.
+ * @property {number} [maxHeaderSize] - The maximum size of the headers of
+ * each part, and of the preamble, in bytes. Defaults to 16 KiB.
+ */
+export interface MultipartOptions {
+    maxFieldSize?: number;
+    maxFileSize?: number;
+    maxParts?: number;
+    maxHeaderSize?: number;
+}
+
+const defaultLimits: Required<MultipartOptions> = {
+    maxFieldSize: 1024 * 1024,
+    maxFileSize: 10 * 1024 * 1024,
+    maxParts: 100,
+    maxHeaderSize: 16 * 1024,
+};
+
+export type Multipart = {
+    fields: Record<string, string | string[]>;
+    files: Record<string, UploadedFile[]>;
+    issues: Issue[];
+};
+
+type Part = {
+    name: string;
+    filename?: string;
+    mimeType: string;
+    field?: FileField;
+    chunks: Buffer[];
+    size: number;
+    skip: boolean;
+};
+
+/**
+ * Returns `true` if the request body is `multipart/form-data`.
+ * @param req The incoming request.
+ */
+export function isMultipart(req: IncomingMessage): boolean {
+    return /^multipart\/form-data\b/i.test(req.headers["content-type"] ?? "");
+}
+
+/**
+ * Parses a `multipart/form-data` request body, and enforces the limits of
+ * the file fields as the body is received. Files are kept in memory, up to
+ * their size limit. Files of undeclared fields, or exceeding the count of
+ * their field, are discarded and reported as issues.
+ * @param req The incoming request.
+ * @param spec The declared file fields.
+ * @param options Options to parse the request.
+ * @throws {Http.PayloadTooLarge} If a file, a field or the headers of a part
+ * exceed their size limit, or the body has too many parts.
+ * @throws {Http.UnsupportedMediaType} If a file has a type that is not accepted.
+ * @throws {Http.BadRequest} If the body is malformed.
+ */
+export function parseMultipart(
+    req: IncomingMessage,
+    spec: FilesSpec,
+    options: MultipartOptions = {},
+): Promise<Multipart> {
+    const boundary = /boundary=(?:"([^"]+)"|([^;\s]+))/i.exec(
+        req.headers["content-type"] ?? "",
+    );
+    if (!boundary) {
+        return Promise.reject(
+            new Http.BadRequest("Missing multipart/form-data boundary."),
+        );
+    }
+
+    const parser = new MultipartParser(
+        boundary[1] ?? boundary[2]!,
+        spec,
+        options,
+    );
+    return new Promise((resolve, reject) => {
+        let failure: unknown;
+        req.on("data", (chunk: Buffer) => {
+            // After a failure, the rest of the body is drained so that the
+            // error response can still be sent
+            if (failure) return;
+            try {
+                parser.write(chunk);
+            } catch (err: unknown) {
+                failure = err;
+            }
+        });
+        req.on("end", () => {
+            if (failure) return reject(failure);
+            try {
+                resolve(parser.end());
+            } catch (err: unknown) {
+                reject(err);
+            }
+        });
+        req.on("error", reject);
+    });
+}
+
+/**
+ * An incremental `multipart/form-data` parser: part bodies are consumed as
+ * they are received, so that size limits are enforced before the whole
+ * body is buffered. Only the data that may hold a delimiter is kept in
+ * `buffer`, up to `maxHeaderSize` for the preamble and part headers.
+ */
+class MultipartParser {
+    private readonly delimiter: Buffer;
+    // The first delimiter is not preceded by a line break
+    private buffer = Buffer.from("\r\n");
+    private state: "preamble" | "delimiter" | "headers" | "body" | "done" =
+        "preamble";
+    private part?: Part;
+    private parts = 0;
+    private readonly limits: Required<MultipartOptions>;
+    private readonly spec: FilesSpec;
+    // The field names come from the client: without a prototype,
+    // "constructor" or "__proto__" are fields like any other
+    private readonly result: Multipart = {
+        fields: Object.create(null),
+        files: Object.create(null),
+        issues: [],
+    };
+
+    constructor(boundary: string, spec: FilesSpec, options: MultipartOptions) {
+        this.spec = Object.assign(Object.create(null), spec);
+        this.delimiter = Buffer.from(`\r\n--${boundary}`);
+        this.limits = { ...defaultLimits, ...options };
+    }
+
+    write(chunk: Buffer) {
+        this.buffer = Buffer.concat([this.buffer, chunk]);
+        while (this.step());
+    }
+
+    end(): Multipart {
+        if (this.state !== "done") {
+            throw new Http.BadRequest("Malformed multipart/form-data body.");
+        }
+
+        for (const [name, field] of Object.entries(this.spec)) {
+            this.result.files[name] ??= [];
+            if (field.required && !this.result.files[name]?.length) {
+                this.result.issues.push({
+                    path: [name],
+                    message: `File "${name}" is required.`,
+                    code: "required",
+                });
+            }
+        }
+        return this.result;
+    }
+
+    /**
+     * Consumes the buffered data of the current state.
+     * @returns `true` if there may be more to consume.
+     */
+    private step(): boolean {
+        switch (this.state) {
+            case "preamble": {
+                const index = this.buffer.indexOf(this.delimiter);
+                if (index === -1) {
+                    if (
+                        this.buffer.length >
+                        this.limits.maxHeaderSize + this.delimiter.length
+                    ) {
+                        throw new Http.BadRequest(
+                            "Malformed multipart/form-data body.",
+                        );
+                    }
+                    return false;
+                }
+                this.buffer = this.buffer.subarray(
+                    index + this.delimiter.length,
+                );
+                this.state = "delimiter";
+                return true;
+            }
+            case "delimiter": {
+                if (this.buffer.length < 2) return false;
+                const next = this.buffer.subarray(0, 2).toString();
+                this.buffer = this.buffer.subarray(2);
+                if (next === "--") {
+                    this.state = "done";
+                } else if (next === "\r\n") {
+                    this.state = "headers";
+                } else {
+                    throw new Http.BadRequest(
+                        "Malformed multipart/form-data body.",
+                    );
+                }
+                return true;
+            }
+            case "headers": {
+                const index = this.buffer.indexOf("\r\n\r\n");
+                const size = index === -1 ? this.buffer.length : index;
+                if (size > this.limits.maxHeaderSize) {
+                    throw new Http.PayloadTooLarge(
+                        `The headers of a part exceed ${this.limits.maxHeaderSize} bytes.`,
+                    );
+                }
+                if (index === -1) return false;
+                this.part = this.startPart(
+                    this.buffer.subarray(0, index).toString(),
+                );
+                this.buffer = this.buffer.subarray(index + 4);
+                this.state = "body";
+                return true;
+            }
+            case "body": {
+                const index = this.buffer.indexOf(this.delimiter);
+                if (index === -1) {
+                    // Keep what may be the beginning of the delimiter
+                    const safe = this.buffer.length - this.delimiter.length;
+                    if (safe > 0) {
+                        this.consume(this.buffer.subarray(0, safe));
+                        this.buffer = this.buffer.subarray(safe);
+                    }
+                    return false;
+                }
+                this.consume(this.buffer.subarray(0, index));
+                this.endPart();
+                this.buffer = this.buffer.subarray(
+                    index + this.delimiter.length,
+                );
+                this.state = "delimiter";
+                return true;
+            }
+            case "done":
+                // The epilogue is ignored
+                this.buffer = Buffer.alloc(0);
+                return false;
+        }
+    }
+
+    private startPart(rawHeaders: string): Part {
+        if (++this.parts > this.limits.maxParts) {
+            throw new Http.PayloadTooLarge(
+                `Expected at most ${this.limits.maxParts} parts.`,
+            );
+        }
+
+        const headers: Record<string, string> = {};
+        for (const line of rawHeaders.split("\r\n")) {
+            const colon = line.indexOf(":");
+            if (colon === -1) continue;
+            headers[line.slice(0, colon).trim().toLowerCase()] = line
+                .slice(colon + 1)
+                .trim();
+        }
+
+        const disposition = headers["content-disposition"] ?? "";
+        const name = /\bname="([^"]*)"/i.exec(disposition)?.[1];
+        if (name === undefined) {
+            throw new Http.BadRequest("Malformed multipart/form-data body.");
+        }
+        const filename =
+            decodeFilename(
+                /\bfilename\*=UTF-8''([^;]*)/i.exec(disposition)?.[1],
+            ) ?? /\bfilename="([^"]*)"/i.exec(disposition)?.[1];
+        const mimeType = (headers["content-type"] ?? "")
+            .split(";")[0]!
+            .trim()
+            .toLowerCase();
+
+        const part: Part = {
+            name,
+            mimeType,
+            chunks: [],
+            size: 0,
+            skip: false,
+        };
+        if (filename === undefined) {
+            return part;
+        }
+
+        part.filename = filename;
+        part.mimeType ||= "application/octet-stream";
+        part.field = this.spec[name];
+
+        const count = this.result.files[name]?.length ?? 0;
+        if (!part.field) {
+            part.skip = true;
+            this.result.issues.push({
+                path: [name],
+                message: `Unexpected file field "${name}".`,
+                code: "unexpected_file",
+            });
+        } else if (count >= (part.field.maxCount ?? 1)) {
+            part.skip = true;
+            this.result.issues.push({
+                path: [name, count],
+                message: `Expected at most ${part.field.maxCount ?? 1} file(s) for "${name}".`,
+                code: "too_many_files",
+            });
+        } else if (!acceptsType(part.field.mimeTypes, part.mimeType)) {
+            throw new Http.UnsupportedMediaType(
+                `File "${part.filename}" of type "${part.mimeType}" is not accepted for "${name}".`,
+            );
+        }
+        return part;
+    }
+
+    private consume(data: Buffer) {
+        const part = this.part!;
+        if (part.skip || data.length === 0) return;
+
+        part.size += data.length;
+        const limit =
+            part.filename === undefined
+                ? this.limits.maxFieldSize
+                : (part.field?.maxSize ?? this.limits.maxFileSize);
+        if (part.size > limit) {
+            throw new Http.PayloadTooLarge(
+                part.filename === undefined
+                    ? `Field "${part.name}" exceeds ${limit} bytes.`
+                    : `File "${part.filename}" exceeds ${limit} bytes.`,
+            );
+        }
+        part.chunks.push(Buffer.from(data));
+    }
+
+    private endPart() {
+        const part = this.part!;
+        this.part = undefined;
+        if (part.skip) return;
+
+        const buffer = Buffer.concat(part.chunks);
+        if (part.filename === undefined) {
+            const value = buffer.toString("utf8");
+            const prev = this.result.fields[part.name];
+            this.result.fields[part.name] =
+                prev === undefined
+                    ? value
+                    : ([] as string[]).concat(prev, value);
+            return;
+        }
+
+        (this.result.files[part.name] ??= []).push({
+            fieldName: part.name,
+            filename: part.filename,
+            mimeType: part.mimeType,
+            size: buffer.length,
+            buffer,
+            stream: () => Readable.from([buffer]),
+        });
+    }
+}
+
+/**
+ * Decodes the percent-encoded filename of the RFC 5987 `filename*` form.
+ * Quoted filenames are not encoded, `100%.txt` is a valid one.
+ * @param filename The encoded filename.
+ * @throws {Http.BadRequest} If the filename is not valid percent-encoding.
+ */
+function decodeFilename(filename: string | undefined) {
+    if (filename === undefined) return undefined;
+    try {
+        return decodeURIComponent(filename);
+    } catch {
+        throw new Http.BadRequest(`Malformed filename "${filename}".`);
+    }
+}
+
+/**
+ * Returns `true` if `mimeType` matches one of the accepted types.
+ * @param accepted The accepted MIME types, e.g. `image/*`.
+ * @param mimeType The MIME type of the file.
+ */
+function acceptsType(accepted: string[] | undefined, mimeType: string) {
+    return (
+        accepted === undefined ||
+        accepted.some((type) => {
+            type = type.toLowerCase();
+            return type.endsWith("/*")
+                ? mimeType.startsWith(type.slice(0, -1))
+                : type === mimeType;
+        })
+    );
+}
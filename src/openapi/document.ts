@@ -0,0 +1,382 @@
+import { STATUS_CODES } from "http";
+import { z } from "zod";
+import { isSchema, Schema, zodAdapter } from "../validation";
+import { RouteDefinition, RouteRegistry } from "../registry";
+import { FilesSpec } from "../multipart";
+import { BodyMap } from "../body";
+import {
+    formatWarning,
+    isOptional,
+    JsonSchema,
+    JsonSchemaWarning,
+    SchemaIO,
+    toJsonSchema,
+} from "./jsonSchema";
+
+/**
+ * Options to generate an OpenAPI document.
+ *
+ * @property {object} info - The `info` object of the document, its title
+ * and version are required.
+ * @property {object[]} [servers] - The `servers` of the document.
+ * @property {boolean} [envelope] - Whether the response bodies are wrapped in
+ * the `{ status, data, meta }` envelope of `defaultFormatter`. Defaults to `true`.
+ * @property {400 | 422} [schemaErrStatus] - The status code of validation
+ * error responses, as configured on `DefaultHandlers`. Defaults to 400.
+ * @property {Function} [onWarning] - Called with the parts of the schemas
+ * JSON Schema can't represent. Defaults to logging them with `console.warn`.
+ */
+export interface OpenApiOptions {
+    info: {
+        title: string;
+        version: string;
+        description?: string;
+        [key: string]: unknown;
+    };
+    servers?: { url: string; description?: string }[];
+    envelope?: boolean;
+    schemaErrStatus?: 400 | 422;
+    onWarning?: (warning: JsonSchemaWarning) => void;
+}
+
+export interface OpenApiDocument {
+    openapi: "3.1.0";
+    info: OpenApiOptions["info"];
+    servers?: OpenApiOptions["servers"];
+    paths: Record<string, Record<string, Operation>>;
+    components?: { schemas: Record<string, JsonSchema> };
+}
+
+export type Operation = {
+    summary?: string;
+    description?: string;
+    tags?: string[];
+    operationId?: string;
+    deprecated?: boolean;
+    parameters?: Parameter[];
+    requestBody?: { required: boolean; content: Content };
+    responses: Record<string, { description: string; content?: Content }>;
+};
+
+export type Parameter = {
+    name: string;
+    in: "path" | "query" | "header" | "cookie";
+    required: boolean;
+    schema: JsonSchema;
+    description?: string;
+};
+
+type Content = Record<string, { schema: JsonSchema; encoding?: object }>;
+
+type Convert = (schema: Schema, io?: SchemaIO) => JsonSchema;
+
+/**
+ * Generates an OpenAPI 3.1 document of the routes recorded by a registry.
+ * Request data are documented from the schemas given to `params()`,
+ * `query()`, `headers()`, `cookies()`, `body()` and `files()`, responses
+ * from the schema given to `reply()` and the errors given to `throws()`.
+ * Recursive schemas are defined in `components.schemas`.
+ * @param routes The registry, or the routes, to document.
+ * @param options Options of the document, see {@link OpenApiOptions}.
+ */
+export function generateOpenApi(
+    routes: RouteRegistry | readonly RouteDefinition[],
+    options: OpenApiOptions,
+): OpenApiDocument {
+    const document: OpenApiDocument = {
+        openapi: "3.1.0",
+        info: options.info,
+        paths: {},
+    };
+    if (options.servers) {
+        document.servers = options.servers;
+    }
+
+    const onWarning =
+        options.onWarning ??
+        ((warning: JsonSchemaWarning) => console.warn(formatWarning(warning)));
+
+    const schemas: Record<string, JsonSchema> = {};
+    const definitions =
+        routes instanceof RouteRegistry ? routes.routes() : routes;
+    for (const route of definitions) {
+        const path = route.path.replace(/:(\w+)\??/g, "{$1}");
+        const convert: Convert = (schema, io = "input") =>
+            toJsonSchema(schema, io, {
+                defs: schemas,
+                refPath: "#/components/schemas/",
+                onWarning: (warning) =>
+                    onWarning({
+                        ...warning,
+                        route: `${route.method.toUpperCase()} ${route.path}`,
+                    }),
+            });
+        (document.paths[path] ??= {})[route.method] = operation(
+            route,
+            options,
+            convert,
+        );
+    }
+    if (Object.keys(schemas).length > 0) {
+        document.components = { schemas };
+    }
+    return document;
+}
+
+function operation(
+    route: RouteDefinition,
+    options: OpenApiOptions,
+    convert: Convert,
+): Operation {
+    const { schemas } = route;
+    const op: Operation = { responses: {} };
+    for (const key of [
+        "summary",
+        "description",
+        "tags",
+        "operationId",
+        "deprecated",
+    ] as const) {
+        copyDefined(op, route, key);
+    }
+
+    const parameters = [
+        ...pathParameters(route.path, schemas.params, convert),
+        ...parametersOf(schemas.query, "query", convert),
+        ...parametersOf(schemas.headers, "header", convert),
+        ...parametersOf(schemas.cookies, "cookie", convert),
+        ...parametersOf(schemas.signedCookies, "cookie", convert),
+    ];
+    if (parameters.length > 0) {
+        op.parameters = parameters;
+    }
+
+    const content = requestContent(schemas.body, schemas.files, convert);
+    if (content) {
+        op.requestBody = { required: true, content };
+    }
+
+    const envelope = (status: number, data: JsonSchema) =>
+        options.envelope === false
+            ? data
+            : {
+                  type: "object",
+                  properties: {
+                      status: { const: envelopeStatus(status) },
+                      data,
+                      meta: { type: "object" },
+                  },
+                  required: ["status", "data", "meta"],
+              };
+    // The data of the responses sharing a status code are documented together
+    const responses = new Map<number, JsonSchema[]>();
+    const respond = (status: number, data: JsonSchema) => {
+        responses.set(status, [...(responses.get(status) ?? []), data]);
+    };
+
+    const reply = schemas.reply;
+    if (reply === undefined) {
+        respond(200, {});
+    } else if (isSchema(reply)) {
+        respond(200, convert(reply, "output"));
+    } else {
+        for (const [status, schema] of Object.entries(reply)) {
+            respond(Number(status), convert(schema, "output"));
+        }
+    }
+
+    // Routes validating request data may respond with validation errors
+    if (
+        Object.keys(schemas).some((key) => key !== "throws" && key !== "reply")
+    ) {
+        respond(options.schemaErrStatus ?? 400, validationErrorSchema);
+    }
+
+    // Errors sharing a status code are documented together
+    const errors = new Map<number, unknown[]>();
+    for (const Err of schemas.throws) {
+        const err = new Err();
+        const bodies = errors.get(err.getStatus()) ?? [];
+        errors.set(err.getStatus(), [...bodies, err.getBody()]);
+    }
+    errors.forEach((bodies, status) => {
+        respond(status, { examples: bodies });
+    });
+
+    responses.forEach((data, status) => {
+        const schema = data.length === 1 ? data[0]! : { oneOf: data };
+        op.responses[status] = {
+            description: STATUS_CODES[status] ?? String(status),
+            content: {
+                "application/json": { schema: envelope(status, schema) },
+            },
+        };
+    });
+    return op;
+}
+
+/**
+ * Copies a member of `source` to `target`, unless it is undefined.
+ */
+function copyDefined<T, K extends keyof T>(
+    target: T,
+    source: Pick<T, K>,
+    key: K,
+) {
+    if (source[key] !== undefined) target[key] = source[key];
+}
+
+const validationErrorSchema: JsonSchema = {
+    type: "object",
+    properties: {
+        message: { type: "string" },
+        errors: {
+            type: "object",
+            additionalProperties: {
+                type: "array",
+                items: {
+                    type: "object",
+                    properties: {
+                        location: { type: "string" },
+                        path: {
+                            type: "array",
+                            items: { type: ["string", "integer"] },
+                        },
+                        message: { type: "string" },
+                        code: { type: "string" },
+                        expected: { type: "string" },
+                        received: {},
+                    },
+                    required: ["location", "path", "message", "code"],
+                },
+            },
+        },
+    },
+    required: ["message", "errors"],
+};
+
+/**
+ * Maps a status code to the `status` of the `defaultFormatter` envelope.
+ */
+function envelopeStatus(status: number) {
+    if (status >= 400 && status < 500) return "fail";
+    if (status >= 500) return "error";
+    return "success";
+}
+
+/**
+ * Documents the path parameters, from the params schema if any, otherwise
+ * from the path itself.
+ */
+function pathParameters(
+    path: string,
+    schema: Schema | undefined,
+    convert: Convert,
+): Parameter[] {
+    const declared = parametersOf(schema, "path", convert);
+    const names = Array.from(path.matchAll(/:(\w+)/g), (match) => match[1]!);
+    return names.map(
+        (name) =>
+            declared.find((param) => param.name === name) ?? {
+                name,
+                in: "path",
+                required: true,
+                schema: { type: "string" },
+            },
+    );
+}
+
+/**
+ * Documents the properties of an object schema as parameters.
+ */
+function parametersOf(
+    schema: Schema | undefined,
+    location: Parameter["in"],
+    convert: Convert,
+) {
+    const shape = objectShape(schema);
+    if (!shape) return [];
+
+    return Object.entries(shape).map(([name, field]): Parameter => {
+        const { description, ...json } = convert(field);
+        const param: Parameter = {
+            name,
+            in: location,
+            required: location === "path" || !isOptional(field, "input"),
+            schema: json,
+        };
+        if (typeof description === "string") param.description = description;
+        return param;
+    });
+}
+
+/**
+ * Documents the request body, per content type.
+ */
+function requestContent(
+    body: Schema | BodyMap | undefined,
+    files: FilesSpec | undefined,
+    convert: Convert,
+): Content | undefined {
+    const content: Content = {};
+    if (body && isSchema(body)) {
+        content[files ? "multipart/form-data" : "application/json"] = {
+            schema: convert(body),
+        };
+    } else if (body) {
+        for (const [type, schema] of Object.entries(body)) {
+            content[type] = { schema: convert(schema) };
+        }
+    }
+
+    if (files) {
+        const form = content["multipart/form-data"]?.schema ?? {
+            type: "object",
+        };
+        const properties = { ...(form["properties"] as object) } as Record<
+            string,
+            JsonSchema
+        >;
+        const required = [...((form["required"] as string[]) ?? [])];
+        const encoding: Record<string, { contentType: string }> = {};
+
+        for (const [name, field] of Object.entries(files)) {
+            const file: JsonSchema = {
+                type: "string",
+                contentMediaType: "application/octet-stream",
+            };
+            const maxCount = field.maxCount ?? 1;
+            properties[name] =
+                maxCount === 1
+                    ? file
+                    : { type: "array", items: file, maxItems: maxCount };
+            if (field.required) required.push(name);
+            if (field.mimeTypes) {
+                encoding[name] = { contentType: field.mimeTypes.join(", ") };
+            }
+        }
+
+        content["multipart/form-data"] = {
+            schema: {
+                type: "object",
+                properties,
+                ...(required.length > 0 && { required }),
+            },
+            ...(Object.keys(encoding).length > 0 && { encoding }),
+        };
+    }
+
+    return Object.keys(content).length > 0 ? content : undefined;
+}
+
+/**
+ * Returns the shape of a Zod object schema (possibly wrapped by effects).
+ */
+function objectShape(schema?: Schema): z.ZodRawShape | undefined {
+    if (!schema || !zodAdapter.accepts(schema)) return undefined;
+    let current: z.ZodTypeAny = schema;
+    while (current instanceof z.ZodEffects) {
+        current = current.innerType();
+    }
+    return current instanceof z.ZodObject ? current.shape : undefined;
+}
@@ -0,0 +1,3 @@
+export * from "./document";
+export * from "./jsonSchema";
+export * from "./routeSchemas";
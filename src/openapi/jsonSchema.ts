@@ -0,0 +1,473 @@
+import { z } from "zod";
+import { nativeEnumValues } from "../utils";
+import { Schema, zodAdapter } from "../validation";
+
+export type JsonSchema = { [keyword: string]: unknown };
+
+/**
+ * Which side of a schema to describe: the data it accepts (`input`, e.g. for
+ * request data), or the data it produces (`output`, e.g. for replies).
+ */
+export type SchemaIO = "input" | "output";
+
+/**
+ * A part of a schema that JSON Schema can't represent, and that is described
+ * loosely instead.
+ *
+ * @property {string} message - What can't be represented, and how it is described.
+ * @property {string} pointer - The JSON Pointer of the part in the produced schema.
+ * @property {string} [route] - The route of the schema, e.g. `GET /books/:id`.
+ * @property {string} [location] - The location of the schema in the route,
+ * e.g. `body` or `reply 201`.
+ */
+export interface JsonSchemaWarning {
+    message: string;
+    pointer: string;
+    route?: string;
+    location?: string;
+}
+
+/**
+ * Options to convert a schema into a JSON Schema.
+ *
+ * @property {Record<string, JsonSchema>} [defs] - Collects the definitions of
+ * recursive schemas, e.g. the `components.schemas` of an OpenAPI document.
+ * Defaults to the `$defs` of the produced schema.
+ * @property {string} [refPath] - The path definitions are referenced with.
+ * Defaults to `#/$defs/`.
+ * @property {Function} [onWarning] - Called with the parts of the schema
+ * JSON Schema can't represent. Defaults to logging them with `console.warn`.
+ */
+export interface JsonSchemaOptions {
+    defs?: Record<string, JsonSchema>;
+    refPath?: string;
+    onWarning?: (warning: JsonSchemaWarning) => void;
+}
+
+/**
+ * Converts a schema into a JSON Schema (draft 2020-12, the dialect of
+ * OpenAPI 3.1). Recursive schemas are defined once, and referenced with
+ * `$ref`. Parts of the schema JSON Schema can't represent (the output of
+ * transforms, refinements, maps, ...) are described loosely, with a warning.
+ * Schemas that are not Zod schemas are described as `{}`, i.e. any value,
+ * since Standard Schema does not expose their shape.
+ * @param schema The schema to convert.
+ * @param io Which side of the schema to describe, defaults to `input`.
+ * @param options Options of the conversion, see {@link JsonSchemaOptions}.
+ */
+export function toJsonSchema(
+    schema: Schema,
+    io: SchemaIO = "input",
+    options: JsonSchemaOptions = {},
+): JsonSchema {
+    const onWarning = options.onWarning ?? logWarning;
+    if (!zodAdapter.accepts(schema)) {
+        onWarning({
+            message:
+                "Standard Schemas do not expose their shape, described as any value.",
+            pointer: "",
+        });
+        return {};
+    }
+
+    const defs = options.defs ?? {};
+    const json = new Converter(
+        io,
+        defs,
+        options.refPath ?? "#/$defs/",
+        onWarning,
+    ).convert(schema, "");
+    if (!options.defs && Object.keys(defs).length > 0) {
+        json["$defs"] = defs;
+    }
+    return json;
+}
+
+/**
+ * Returns `true` if the value described by `schema` may be omitted.
+ * @param schema The Zod schema of an object property.
+ * @param io Which side of the schema is described.
+ */
+export function isOptional(schema: z.ZodTypeAny, io: SchemaIO): boolean {
+    if (io === "output") {
+        // Defaults fill in omitted values
+        const typeName = schema._def.typeName;
+        if (
+            typeName === z.ZodFirstPartyTypeKind.ZodDefault ||
+            typeName === z.ZodFirstPartyTypeKind.ZodCatch
+        ) {
+            return false;
+        }
+    }
+    return schema.isOptional();
+}
+
+/**
+ * Formats a warning as a message, e.g. to log it.
+ * @param warning The warning to format.
+ */
+export function formatWarning(warning: JsonSchemaWarning): string {
+    const { message, pointer, route, location } = warning;
+    const source = [route, location].filter(Boolean).join(" ");
+    return `Suvidha: ${source ? `${source}: ` : ""}${message} (at ${pointer || "/"})`;
+}
+
+function logWarning(warning: JsonSchemaWarning) {
+    console.warn(formatWarning(warning));
+}
+
+/**
+ * The names of the recursive schemas defined in a `defs` object, so that a
+ * schema shared by several conversions is defined once.
+ */
+const definitionNames = new WeakMap<
+    Record<string, JsonSchema>,
+    Record<SchemaIO, Map<z.ZodTypeAny, string>>
+>();
+
+class Converter {
+    private readonly names: Map<z.ZodTypeAny, string>;
+    private readonly pending = new Set<z.ZodTypeAny>();
+
+    constructor(
+        private readonly io: SchemaIO,
+        private readonly defs: Record<string, JsonSchema>,
+        private readonly refPath: string,
+        private readonly onWarning: (warning: JsonSchemaWarning) => void,
+    ) {
+        let names = definitionNames.get(defs);
+        if (!names) {
+            names = { input: new Map(), output: new Map() };
+            definitionNames.set(defs, names);
+        }
+        this.names = names[io];
+    }
+
+    convert(schema: z.ZodTypeAny, pointer: string): JsonSchema {
+        const json = this.convertType(schema, pointer);
+        if (schema.description !== undefined) {
+            json["description"] = schema.description;
+        }
+        return json;
+    }
+
+    private convertType(schema: z.ZodTypeAny, pointer: string): JsonSchema {
+        const def = schema._def;
+        const io = this.io;
+        const inner = (schema: z.ZodTypeAny, ...keys: (string | number)[]) =>
+            this.convert(
+                schema,
+                pointer + keys.map((key) => `/${escapePointer(key)}`).join(""),
+            );
+
+        switch (def.typeName) {
+            case z.ZodFirstPartyTypeKind.ZodString:
+                return string(def.checks);
+            case z.ZodFirstPartyTypeKind.ZodNumber:
+                return number(def.checks);
+            case z.ZodFirstPartyTypeKind.ZodBigInt:
+                return { type: "integer", format: "int64" };
+            case z.ZodFirstPartyTypeKind.ZodBoolean:
+                return { type: "boolean" };
+            case z.ZodFirstPartyTypeKind.ZodDate:
+                return { type: "string", format: "date-time" };
+            case z.ZodFirstPartyTypeKind.ZodNull:
+                return { type: "null" };
+            case z.ZodFirstPartyTypeKind.ZodLiteral:
+                return def.value === null
+                    ? { type: "null" }
+                    : { const: def.value };
+            case z.ZodFirstPartyTypeKind.ZodEnum:
+                return { type: "string", enum: def.values };
+            case z.ZodFirstPartyTypeKind.ZodNativeEnum: {
+                const values = nativeEnumValues(def.values);
+                const types = Array.from(
+                    new Set(values.map((value) => typeof value)),
+                );
+                return {
+                    type: types.length === 1 ? types[0] : types,
+                    enum: values,
+                };
+            }
+
+            case z.ZodFirstPartyTypeKind.ZodObject: {
+                const properties: Record<string, JsonSchema> = {};
+                const required: string[] = [];
+                const shape: z.ZodRawShape = def.shape();
+                for (const [key, field] of Object.entries(shape)) {
+                    properties[key] = inner(field, "properties", key);
+                    if (!isOptional(field, io)) required.push(key);
+                }
+
+                const json: JsonSchema = { type: "object", properties };
+                if (required.length > 0) json["required"] = required;
+                if (
+                    def.catchall._def.typeName !==
+                    z.ZodFirstPartyTypeKind.ZodNever
+                ) {
+                    json["additionalProperties"] = inner(
+                        def.catchall,
+                        "additionalProperties",
+                    );
+                } else if (def.unknownKeys === "strict") {
+                    json["additionalProperties"] = false;
+                }
+                return json;
+            }
+            case z.ZodFirstPartyTypeKind.ZodRecord:
+                return {
+                    type: "object",
+                    additionalProperties: inner(
+                        def.valueType,
+                        "additionalProperties",
+                    ),
+                };
+            case z.ZodFirstPartyTypeKind.ZodArray: {
+                const json: JsonSchema = {
+                    type: "array",
+                    items: inner(def.type, "items"),
+                };
+                const min = def.exactLength?.value ?? def.minLength?.value;
+                const max = def.exactLength?.value ?? def.maxLength?.value;
+                if (min !== undefined) json["minItems"] = min;
+                if (max !== undefined) json["maxItems"] = max;
+                return json;
+            }
+            case z.ZodFirstPartyTypeKind.ZodTuple: {
+                const items: z.ZodTypeAny[] = def.items;
+                return {
+                    type: "array",
+                    prefixItems: items.map((item, i) =>
+                        inner(item, "prefixItems", i),
+                    ),
+                    items: def.rest ? inner(def.rest, "items") : false,
+                    minItems: items.length,
+                };
+            }
+            case z.ZodFirstPartyTypeKind.ZodSet:
+                return {
+                    type: "array",
+                    uniqueItems: true,
+                    items: inner(def.valueType, "items"),
+                };
+
+            case z.ZodFirstPartyTypeKind.ZodUnion:
+                return {
+                    anyOf: (def.options as z.ZodTypeAny[]).map((option, i) =>
+                        inner(option, "anyOf", i),
+                    ),
+                };
+            case z.ZodFirstPartyTypeKind.ZodDiscriminatedUnion:
+                return {
+                    oneOf: (def.options as z.ZodTypeAny[]).map((option, i) =>
+                        inner(option, "oneOf", i),
+                    ),
+                };
+            case z.ZodFirstPartyTypeKind.ZodIntersection:
+                return {
+                    allOf: [
+                        inner(def.left, "allOf", 0),
+                        inner(def.right, "allOf", 1),
+                    ],
+                };
+
+            case z.ZodFirstPartyTypeKind.ZodOptional:
+            case z.ZodFirstPartyTypeKind.ZodCatch:
+            case z.ZodFirstPartyTypeKind.ZodReadonly:
+                return inner(def.innerType);
+            case z.ZodFirstPartyTypeKind.ZodNullable:
+                return {
+                    anyOf: [inner(def.innerType, "anyOf", 0), { type: "null" }],
+                };
+            case z.ZodFirstPartyTypeKind.ZodDefault:
+                return { ...inner(def.innerType), default: def.defaultValue() };
+            case z.ZodFirstPartyTypeKind.ZodBranded:
+                return inner(def.type);
+            case z.ZodFirstPartyTypeKind.ZodPromise:
+                return inner(def.type);
+            case z.ZodFirstPartyTypeKind.ZodPipeline:
+                return inner(io === "input" ? def.in : def.out);
+            case z.ZodFirstPartyTypeKind.ZodEffects:
+                if (def.effect.type === "preprocess" && io === "input") {
+                    this.warn(
+                        pointer,
+                        "The input of a preprocess is not known, described as any value.",
+                    );
+                    return {};
+                }
+                if (def.effect.type === "transform" && io === "output") {
+                    this.warn(
+                        pointer,
+                        "The output of a transform is not known, described as any value. Declare it with `.pipe()` to describe it.",
+                    );
+                    return {};
+                }
+                if (def.effect.type === "refinement") {
+                    this.warn(
+                        pointer,
+                        "Refinements can't be represented, only the refined schema is described.",
+                    );
+                }
+                return inner(def.schema);
+            case z.ZodFirstPartyTypeKind.ZodLazy:
+                return this.lazy(schema, () => inner(def.getter()));
+
+            case z.ZodFirstPartyTypeKind.ZodNever:
+                return { not: {} };
+            case z.ZodFirstPartyTypeKind.ZodAny:
+            case z.ZodFirstPartyTypeKind.ZodUnknown:
+                return {};
+            default: {
+                // Types JSON can't represent (map, symbol, function, ...)
+                const kind = String(def.typeName).replace(/^Zod/, "");
+                this.warn(
+                    pointer,
+                    `z.${kind[0]!.toLowerCase()}${kind.slice(1)}() can't be represented, described as any value.`,
+                );
+                return {};
+            }
+        }
+    }
+
+    /**
+     * Describes a lazy schema. A recursive schema is defined in `defs`, and
+     * referenced wherever it appears, its own definition included.
+     */
+    private lazy(schema: z.ZodTypeAny, describe: () => JsonSchema): JsonSchema {
+        const name = this.names.get(schema);
+        if (name !== undefined && name in this.defs) {
+            return { $ref: this.refPath + name };
+        }
+        if (this.pending.has(schema)) {
+            return { $ref: this.refPath + this.define(schema) };
+        }
+
+        this.pending.add(schema);
+        const json = describe();
+        this.pending.delete(schema);
+
+        const recursive = this.names.get(schema);
+        if (recursive === undefined) {
+            return json;
+        }
+        this.defs[recursive] = json;
+        return { $ref: this.refPath + recursive };
+    }
+
+    /**
+     * Names the definition of a recursive schema.
+     */
+    private define(schema: z.ZodTypeAny): string {
+        let name = this.names.get(schema);
+        if (name === undefined) {
+            const taken = new Set([
+                ...Object.keys(this.defs),
+                ...Array.from(this.names.values()),
+            ]);
+            let n = 1;
+            while (taken.has(`Recursive${n}`)) n++;
+            name = `Recursive${n}`;
+            this.names.set(schema, name);
+        }
+        return name;
+    }
+
+    private warn(pointer: string, message: string) {
+        this.onWarning({ message, pointer });
+    }
+}
+
+function string(checks: z.ZodStringCheck[]): JsonSchema {
+    const json: JsonSchema = { type: "string" };
+    const patterns: string[] = [];
+    for (const check of checks) {
+        switch (check.kind) {
+            case "min":
+                json["minLength"] = check.value;
+                break;
+            case "max":
+                json["maxLength"] = check.value;
+                break;
+            case "length":
+                json["minLength"] = json["maxLength"] = check.value;
+                break;
+            case "email":
+                json["format"] = "email";
+                break;
+            case "url":
+                json["format"] = "uri";
+                break;
+            case "uuid":
+                json["format"] = "uuid";
+                break;
+            case "datetime":
+                json["format"] = "date-time";
+                break;
+            case "date":
+                json["format"] = "date";
+                break;
+            case "time":
+                json["format"] = "time";
+                break;
+            case "duration":
+                json["format"] = "duration";
+                break;
+            case "ip":
+                json["format"] = check.version === "v6" ? "ipv6" : "ipv4";
+                break;
+            case "regex":
+                patterns.push(check.regex.source);
+                break;
+            case "startsWith":
+                patterns.push(`^${escapeRegExp(check.value)}`);
+                break;
+            case "endsWith":
+                patterns.push(`${escapeRegExp(check.value)}$`);
+                break;
+            case "includes":
+                patterns.push(escapeRegExp(check.value));
+                break;
+        }
+    }
+
+    if (patterns.length === 1) {
+        json["pattern"] = patterns[0];
+    } else if (patterns.length > 1) {
+        json["allOf"] = patterns.map((pattern) => ({ pattern }));
+    }
+    return json;
+}
+
+function number(checks: z.ZodNumberCheck[]): JsonSchema {
+    const json: JsonSchema = { type: "number" };
+    for (const check of checks) {
+        switch (check.kind) {
+            case "int":
+                json["type"] = "integer";
+                break;
+            case "min":
+                json[check.inclusive ? "minimum" : "exclusiveMinimum"] =
+                    check.value;
+                break;
+            case "max":
+                json[check.inclusive ? "maximum" : "exclusiveMaximum"] =
+                    check.value;
+                break;
+            case "multipleOf":
+                json["multipleOf"] = check.value;
+                break;
+        }
+    }
+    return json;
+}
+
+/**
+ * Escapes a key of a JSON Pointer (RFC 6901).
+ */
+function escapePointer(key: string | number): string {
+    return String(key).replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
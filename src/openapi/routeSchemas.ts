@@ -0,0 +1,121 @@
+import { isSchema, Schema } from "../validation";
+import { RouteDefinition, RouteRegistry } from "../registry";
+import {
+    JsonSchema,
+    JsonSchemaWarning,
+    formatWarning,
+    SchemaIO,
+    toJsonSchema,
+} from "./jsonSchema";
+
+/**
+ * The JSON Schemas of a route. Each of them is a standalone document.
+ *
+ * @property {JsonSchema} [params] - The schema of the route parameters.
+ * @property {JsonSchema} [query] - The schema of the query parameters.
+ * @property {JsonSchema} [headers] - The schema of the request headers.
+ * @property {JsonSchema} [cookies] - The schema of the request cookies.
+ * @property {JsonSchema} [signedCookies] - The schema of the signed request cookies.
+ * @property {Record<string, JsonSchema>} [body] - The schemas of the request
+ * body, keyed by content type (`application/json` for a single schema, or
+ * `multipart/form-data` with `files()`).
+ * @property {Record<string, JsonSchema>} [replies] - The schemas of the
+ * replies, keyed by status code (`2XX` for a single schema).
+ */
+export interface RouteJsonSchemas {
+    params?: JsonSchema;
+    query?: JsonSchema;
+    headers?: JsonSchema;
+    cookies?: JsonSchema;
+    signedCookies?: JsonSchema;
+    body?: Record<string, JsonSchema>;
+    replies?: Record<string, JsonSchema>;
+}
+
+/**
+ * Options to generate the JSON Schemas of routes.
+ *
+ * @property {Function} [onWarning] - Called with the parts of the schemas
+ * JSON Schema can't represent. Defaults to logging them with `console.warn`.
+ */
+export interface JsonSchemasOptions {
+    onWarning?: (warning: JsonSchemaWarning) => void;
+}
+
+const dialect = "https://json-schema.org/draft/2020-12/schema";
+
+/**
+ * Generates the JSON Schemas (draft 2020-12) of the request data and the
+ * replies of the routes recorded by a registry, e.g. for an API gateway or
+ * contract tests. Request data are described as they are accepted, replies
+ * as they are sent.
+ * @param routes The registry, or the routes, to describe.
+ * @param options Options of the generation, see {@link JsonSchemasOptions}.
+ * @returns The JSON Schemas of the routes, keyed by method and path, e.g.
+ * `GET /books/:id`.
+ */
+export function generateJsonSchemas(
+    routes: RouteRegistry | readonly RouteDefinition[],
+    options: JsonSchemasOptions = {},
+): Record<string, RouteJsonSchemas> {
+    const definitions =
+        routes instanceof RouteRegistry ? routes.routes() : routes;
+
+    const onWarning =
+        options.onWarning ??
+        ((warning: JsonSchemaWarning) => console.warn(formatWarning(warning)));
+
+    const documents: Record<string, RouteJsonSchemas> = {};
+    for (const { method, path, schemas } of definitions) {
+        const route = `${method.toUpperCase()} ${path}`;
+        const convert = (schema: Schema, io: SchemaIO, location: string) => ({
+            $schema: dialect,
+            ...toJsonSchema(schema, io, {
+                onWarning: (warning) =>
+                    onWarning({ ...warning, route, location }),
+            }),
+        });
+
+        const json: RouteJsonSchemas = {};
+        for (const ref of [
+            "params",
+            "query",
+            "headers",
+            "cookies",
+            "signedCookies",
+        ] as const) {
+            const schema = schemas[ref];
+            if (schema) json[ref] = convert(schema, "input", ref);
+        }
+
+        if (schemas.body && isSchema(schemas.body)) {
+            const type = schemas.files
+                ? "multipart/form-data"
+                : "application/json";
+            json.body = { [type]: convert(schemas.body, "input", "body") };
+        } else if (schemas.body) {
+            json.body = {};
+            for (const [type, schema] of Object.entries(schemas.body)) {
+                json.body[type] = convert(schema, "input", `body ${type}`);
+            }
+        }
+
+        if (schemas.reply && isSchema(schemas.reply)) {
+            json.replies = {
+                "2XX": convert(schemas.reply, "output", "reply"),
+            };
+        } else if (schemas.reply) {
+            json.replies = {};
+            for (const [status, schema] of Object.entries(schemas.reply)) {
+                json.replies[status] = convert(
+                    schema,
+                    "output",
+                    `reply ${status}`,
+                );
+            }
+        }
+
+        documents[route] = json;
+    }
+    return documents;
+}
@@ -0,0 +1,292 @@
+import { z } from "zod";
+import { isObject } from "./utils";
+import { Issue } from "./validation";
+
+type Path = (string | number)[];
+
+/**
+ * Options of the query coercion.
+ */
+export interface CoerceQueryOptions {
+    /**
+     * Splits the values of arrays on commas (`?id=1,2`), besides repeated
+     * keys (`?id=1&id=2`). Set to `false` when the items may hold commas.
+     * Defaults to `true`.
+     */
+    commaSeparated?: boolean;
+}
+
+/**
+ * Segments of bracket notation that would reach the prototype of the objects.
+ */
+const unsafeSegments = new Set(["__proto__", "constructor", "prototype"]);
+
+/**
+ * Coerces the raw query string values, which Express.js hands over as
+ * strings or arrays of strings, into the types expected by a Zod schema:
+ * numbers, booleans, dates, numeric enums and literals, and arrays given as
+ * repeated keys (`?id=1&id=2`) or comma-separated values (`?id=1,2`). Keys in
+ * bracket notation (`?filter[min]=1`) are expanded into nested objects.
+ *
+ * Values that cannot be coerced are left untouched, and reported as issues
+ * holding the raw value.
+ * @param schema The Zod schema of the query.
+ * @param query The raw request query.
+ * @param options Options of the coercion.
+ */
+export function coerceQuery(
+    schema: z.ZodTypeAny,
+    query: unknown,
+    options: CoerceQueryOptions = {},
+): { data: unknown; issues: Issue[] } {
+    const issues: Issue[] = [];
+    const data = coerce(schema, expandBrackets(query), [], issues, options);
+    return { data, issues };
+}
+
+/**
+ * Expands keys in bracket notation (`a[b][]=1`) into nested objects, for
+ * query parsers that keep them as is (e.g. `app.set("query parser", "simple")`).
+ * Keys with a `__proto__`, `constructor` or `prototype` segment are dropped.
+ * @param query The raw request query.
+ */
+function expandBrackets(query: unknown): unknown {
+    if (
+        !isObject(query) ||
+        !Object.keys(query).some((key) => key.includes("["))
+    ) {
+        return query;
+    }
+
+    const expanded: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(query)) {
+        const match = /^([^[\]]+)((?:\[[^[\]]*\])+)$/.exec(key);
+        if (!match) {
+            if (key !== "__proto__") expanded[key] = value;
+            continue;
+        }
+
+        const segments = [match[1]!, ...match[2]!.slice(1, -1).split("][")];
+        if (segments.some((segment) => unsafeSegments.has(segment))) continue;
+
+        let target = expanded;
+        for (let i = 0; i < segments.length; i++) {
+            const segment = segments[i]!;
+            const next = segments[i + 1];
+            if (next === undefined) {
+                target[segment] = value;
+            } else if (next === "") {
+                // `a[]=1` is an array
+                target[segment] = ([] as unknown[]).concat(
+                    (own(target, segment) as unknown[]) ?? [],
+                    value,
+                );
+                break;
+            } else {
+                if (!isObject(own(target, segment))) target[segment] = {};
+                target = target[segment] as Record<string, unknown>;
+            }
+        }
+    }
+    return expanded;
+}
+
+/**
+ * Coerces `value` into the type expected by `schema`.
+ * @param schema The Zod schema `value` is validated against.
+ * @param value The raw value.
+ * @param path The path of `value` in the query.
+ * @param issues The coercion issues found so far.
+ * @param options Options of the coercion.
+ */
+function coerce(
+    schema: z.ZodTypeAny,
+    value: unknown,
+    path: Path,
+    issues: Issue[],
+    options: CoerceQueryOptions,
+): unknown {
+    const def = schema._def;
+    if (value === undefined || def.coerce) {
+        // Zod coerces the value itself
+        return value;
+    }
+
+    switch (def.typeName) {
+        case z.ZodFirstPartyTypeKind.ZodOptional:
+        case z.ZodFirstPartyTypeKind.ZodNullable:
+        case z.ZodFirstPartyTypeKind.ZodDefault:
+        case z.ZodFirstPartyTypeKind.ZodCatch:
+        case z.ZodFirstPartyTypeKind.ZodReadonly:
+            return coerce(def.innerType, value, path, issues, options);
+        case z.ZodFirstPartyTypeKind.ZodBranded:
+            return coerce(def.type, value, path, issues, options);
+        case z.ZodFirstPartyTypeKind.ZodLazy:
+            return coerce(def.getter(), value, path, issues, options);
+        case z.ZodFirstPartyTypeKind.ZodPipeline:
+            return coerce(def.in, value, path, issues, options);
+        case z.ZodFirstPartyTypeKind.ZodEffects:
+            // A preprocess expects the raw value
+            return def.effect.type === "preprocess"
+                ? value
+                : coerce(def.schema, value, path, issues, options);
+
+        case z.ZodFirstPartyTypeKind.ZodObject: {
+            if (!isObject(value)) return value;
+            const shape: z.ZodRawShape = def.shape();
+            const coerced: Record<string, unknown> = { ...value };
+            for (const [key, field] of Object.entries(shape)) {
+                if (key in value) {
+                    coerced[key] = coerce(
+                        field,
+                        value[key],
+                        [...path, key],
+                        issues,
+                        options,
+                    );
+                }
+            }
+            return coerced;
+        }
+        case z.ZodFirstPartyTypeKind.ZodRecord: {
+            if (!isObject(value)) return value;
+            const coerced: Record<string, unknown> = {};
+            for (const [key, item] of Object.entries(value)) {
+                coerced[key] = coerce(
+                    def.valueType,
+                    item,
+                    [...path, key],
+                    issues,
+                    options,
+                );
+            }
+            return coerced;
+        }
+        case z.ZodFirstPartyTypeKind.ZodArray:
+            return toArray(value, options).map((item, i) =>
+                coerce(def.type, item, [...path, i], issues, options),
+            );
+        case z.ZodFirstPartyTypeKind.ZodTuple:
+            return toArray(value, options).map((item, i) => {
+                const type = def.items[i] ?? def.rest;
+                return type
+                    ? coerce(type, item, [...path, i], issues, options)
+                    : item;
+            });
+        case z.ZodFirstPartyTypeKind.ZodUnion:
+        case z.ZodFirstPartyTypeKind.ZodDiscriminatedUnion: {
+            // The first option the value can be coerced into wins
+            for (const option of def.options as z.ZodTypeAny[]) {
+                const optionIssues: Issue[] = [];
+                const coerced = coerce(
+                    option,
+                    value,
+                    path,
+                    optionIssues,
+                    options,
+                );
+                if (optionIssues.length === 0) return coerced;
+            }
+            return value;
+        }
+
+        case z.ZodFirstPartyTypeKind.ZodNumber:
+            return scalar(value, "number", toNumber, path, issues);
+        case z.ZodFirstPartyTypeKind.ZodBigInt:
+            return scalar(value, "bigint", toBigInt, path, issues);
+        case z.ZodFirstPartyTypeKind.ZodBoolean:
+            return scalar(value, "boolean", toBoolean, path, issues);
+        case z.ZodFirstPartyTypeKind.ZodDate:
+            return scalar(value, "date", toDate, path, issues);
+        case z.ZodFirstPartyTypeKind.ZodLiteral:
+            return typeof def.value === "string"
+                ? value
+                : literal(value, [def.value]);
+        case z.ZodFirstPartyTypeKind.ZodNativeEnum:
+            return literal(value, Object.values(def.values));
+        default:
+            return value;
+    }
+}
+
+/**
+ * Coerces a string into a scalar. Values that cannot be coerced are
+ * reported, and returned as is.
+ */
+function scalar(
+    value: unknown,
+    expected: string,
+    convert: (value: string) => unknown,
+    path: Path,
+    issues: Issue[],
+): unknown {
+    if (typeof value !== "string") return value;
+
+    const coerced = convert(value.trim());
+    if (coerced !== undefined) return coerced;
+
+    issues.push({
+        path,
+        message: `Expected ${expected}, received ${JSON.stringify(value)}`,
+        code: "invalid_type",
+        expected,
+        received: value,
+    });
+    return value;
+}
+
+/**
+ * Coerces a string into the (number or boolean) literal it represents.
+ */
+function literal(value: unknown, literals: unknown[]): unknown {
+    if (typeof value !== "string" || literals.includes(value)) return value;
+    return literals.find((literal) => String(literal) === value) ?? value;
+}
+
+function toArray(value: unknown, options: CoerceQueryOptions): unknown[] {
+    if (Array.isArray(value)) return value;
+    if (typeof value === "string" && options.commaSeparated !== false) {
+        return value === "" ? [] : value.split(",");
+    }
+    return [value];
+}
+
+function toNumber(value: string): number | undefined {
+    const number = Number(value);
+    return value !== "" && !Number.isNaN(number) ? number : undefined;
+}
+
+function toBigInt(value: string): bigint | undefined {
+    try {
+        return value !== "" ? BigInt(value) : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+function toBoolean(value: string): boolean | undefined {
+    switch (value.toLowerCase()) {
+        case "true":
+        case "1":
+            return true;
+        case "false":
+        case "0":
+            return false;
+        default:
+            return undefined;
+    }
+}
+
+function toDate(value: string): Date | undefined {
+    const date = new Date(/^-?\d+$/.test(value) ? Number(value) : value);
+    return value !== "" && !Number.isNaN(date.getTime()) ? date : undefined;
+}
+
+/**
+ * Returns the own property `key` of `target`, ignoring inherited ones.
+ */
+function own(target: Record<string, unknown>, key: string): unknown {
+    return Object.prototype.hasOwnProperty.call(target, key)
+        ? target[key]
+        : undefined;
+}
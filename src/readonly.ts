@@ -0,0 +1,62 @@
+/**
+ * The proxies guarding the context, by the object they guard.
+ */
+const guards = new WeakMap<object, object>();
+const proxies = new WeakSet<object>();
+
+/**
+ * Returns true if the object is guarded: plain objects and arrays. Dates,
+ * Maps, class instances, ... are left as is, as their methods manage their
+ * own state, and frozen objects are readonly already.
+ */
+function guarded(value: unknown): value is object {
+    if (
+        typeof value !== "object" ||
+        value === null ||
+        proxies.has(value) ||
+        Object.isFrozen(value)
+    ) {
+        return false;
+    }
+    if (Array.isArray(value)) return true;
+
+    const proto = Object.getPrototypeOf(value);
+    return proto === Object.prototype || proto === null;
+}
+
+function refuse(path: string, key: string | symbol): never {
+    const name = typeof key === "symbol" ? `[${key.toString()}]` : key;
+    throw new TypeError(
+        `Suvidha: cannot modify "${path}.${name}", the context is readonly.`,
+    );
+}
+
+/**
+ * Guards an object of the context, so that modifying it throws with the
+ * path of the modified member.
+ * @param value The object to guard.
+ * @param path The path of the object in `req.context`.
+ * @returns The guarded object, or the value itself if it is not guarded.
+ */
+export function guard<T>(value: T, path = "req.context"): T {
+    if (!guarded(value)) return value;
+
+    const existing = guards.get(value);
+    if (existing) return existing as T;
+
+    const proxy = new Proxy(value, {
+        get(target, key, receiver) {
+            const member = Reflect.get(target, key, receiver);
+            return typeof key === "symbol"
+                ? member
+                : guard(member, `${path}.${key}`);
+        },
+        set: (_, key) => refuse(path, key),
+        deleteProperty: (_, key) => refuse(path, key),
+        defineProperty: (_, key) => refuse(path, key),
+        setPrototypeOf: () => refuse(path, "__proto__"),
+    });
+    guards.set(value, proxy);
+    proxies.add(proxy);
+    return proxy;
+}
@@ -0,0 +1,126 @@
+import { RequestHandler } from "express";
+import * as core from "express-serve-static-core";
+import { describeHandler, RouteSchemas } from "./suvidha";
+
+export type Method =
+    "get" | "post" | "put" | "patch" | "delete" | "head" | "options";
+
+/**
+ * Documentation of a route.
+ *
+ * @property {string} [summary] - A short summary of what the route does.
+ * @property {string} [description] - A longer description of the route.
+ * @property {string[]} [tags] - Tags to group the route with others.
+ * @property {string} [operationId] - A unique identifier of the route.
+ * @property {boolean} [deprecated] - Whether the route is deprecated.
+ */
+export interface RouteMeta {
+    summary?: string;
+    description?: string;
+    tags?: string[];
+    operationId?: string;
+    deprecated?: boolean;
+}
+
+/**
+ * A route recorded by a {@link RouteRegistry}.
+ */
+export interface RouteDefinition extends RouteMeta {
+    method: Method;
+    path: string;
+    schemas: RouteSchemas;
+}
+
+/**
+ * Records the routes built with `Suvidha`, along with their method, path and
+ * schemas, e.g. to generate their OpenAPI document. When given an Express.js
+ * app (or router), the routes are mounted on it as well.
+ *
+ * ```ts
+ * const registry = RouteRegistry.create(app);
+ * registry.post("/books", suvidha().body(BookSchema).handler(create), {
+ *     summary: "Creates a book",
+ *     tags: ["books"],
+ * });
+ * ```
+ */
+export class RouteRegistry {
+    private readonly definitions: RouteDefinition[] = [];
+
+    /**
+     * @param router The Express.js app or router to mount the routes on, if any.
+     */
+    constructor(private readonly router?: core.IRouter) {}
+
+    /**
+     * Creates a new `RouteRegistry`.
+     * @param router The Express.js app or router to mount the routes on, if any.
+     */
+    static create(router?: core.IRouter) {
+        return new RouteRegistry(router);
+    }
+
+    /**
+     * Records a route, and mounts it on the router of the registry.
+     * @param method The HTTP method of the route.
+     * @param path The path of the route, in Express.js syntax (`/books/:id`).
+     * @param handlers The request handler(s) of the route. The schemas of the
+     * handlers built with `Suvidha` are merged, in order.
+     * @param meta Documentation of the route.
+     * @returns The registry, for chaining.
+     */
+    route(
+        method: Method,
+        path: string,
+        handlers: RouteHandlers,
+        meta: RouteMeta = {},
+    ): this {
+        handlers = ([] as RequestHandler<any, any, any, any>[]).concat(
+            handlers,
+        );
+
+        const schemas: RouteSchemas = { throws: [] };
+        for (const handler of handlers) {
+            const { steps, throws, ...rest } = describeHandler(handler) ?? {
+                steps: [],
+                throws: [],
+            };
+            Object.assign(schemas, rest);
+            schemas.throws.push(...throws);
+        }
+
+        this.definitions.push({ ...meta, method, path, schemas });
+        this.router?.[method](path, ...handlers);
+        return this;
+    }
+
+    get(path: string, handlers: RouteHandlers, meta?: RouteMeta): this {
+        return this.route("get", path, handlers, meta);
+    }
+
+    post(path: string, handlers: RouteHandlers, meta?: RouteMeta): this {
+        return this.route("post", path, handlers, meta);
+    }
+
+    put(path: string, handlers: RouteHandlers, meta?: RouteMeta): this {
+        return this.route("put", path, handlers, meta);
+    }
+
+    patch(path: string, handlers: RouteHandlers, meta?: RouteMeta): this {
+        return this.route("patch", path, handlers, meta);
+    }
+
+    delete(path: string, handlers: RouteHandlers, meta?: RouteMeta): this {
+        return this.route("delete", path, handlers, meta);
+    }
+
+    /**
+     * Returns the recorded routes, in the order they were recorded.
+     */
+    routes(): readonly RouteDefinition[] {
+        return this.definitions;
+    }
+}
+
+type RouteHandlers =
+    RequestHandler<any, any, any, any> | RequestHandler<any, any, any, any>[];
@@ -0,0 +1,244 @@
+import { Request, Response } from "express";
+import { Http } from "./http";
+
+/**
+ * How a request ended, given to the disposers of its middlewares.
+ *
+ * - `success`: the pipeline completed, `status` is the status of the response.
+ * - `fail`: an `Http.End` was thrown, `status` is its status.
+ * - `error`: any other error was thrown, or the client closed the connection.
+ */
+export type Outcome =
+    | { type: "success"; status: number }
+    | { type: "fail"; status: number; error: Http.End }
+    | { type: "error"; error: unknown };
+
+/**
+ * Releases the resources acquired by a middleware, e.g. commits or rolls
+ * back a transaction according to the outcome of the request.
+ */
+export type Disposer = (outcome: Outcome) => unknown;
+
+type DisposerKey = typeof Symbol.asyncDispose | typeof Symbol.dispose;
+
+/**
+ * The context returned by a middleware, without its disposer. Each member
+ * of a union is kept apart, so that it can still be narrowed.
+ */
+export type ContextOf<T> = T extends unknown ? Omit<T, DisposerKey> : never;
+
+/**
+ * An object holding a disposer, under `Symbol.asyncDispose` or
+ * `Symbol.dispose`.
+ */
+type WithDisposer =
+    { [Symbol.asyncDispose]: Disposer } | { [Symbol.dispose]: Disposer };
+
+/**
+ * Returns `true` if `value` is an object holding a disposer.
+ * @param value The value to check, e.g. the context returned by a middleware.
+ */
+export function hasDisposer(value: unknown): value is WithDisposer {
+    return (
+        typeof value === "object" &&
+        value !== null &&
+        (Symbol.asyncDispose in value || Symbol.dispose in value)
+    );
+}
+
+/**
+ * Returns the disposer of an object, `Symbol.asyncDispose` first.
+ */
+export function disposerOf(value: WithDisposer): Disposer {
+    return Symbol.asyncDispose in value
+        ? value[Symbol.asyncDispose]
+        : value[Symbol.dispose];
+}
+
+/**
+ * The resources acquired while handling a request. They are disposed once
+ * the response is closed and the pipelines using them have settled, so that
+ * a client closing the connection doesn't release them while a handler is
+ * still using them.
+ */
+class Scope {
+    private readonly disposers: [Disposer, object][] = [];
+    private failure?: { error: unknown };
+    /** The outcome of the request, recorded when the response is closed */
+    private closed?: Outcome;
+    private pipelines = 0;
+    private disposing = false;
+
+    /**
+     * @param res The response, its end disposes the resources.
+     * @param signal The signal of the request.
+     * @param report Reports the failures of the disposers.
+     */
+    constructor(
+        private readonly res: Response,
+        private readonly signal: AbortSignal,
+        private readonly report: (err: unknown) => unknown,
+    ) {
+        res.once("close", () => {
+            this.closed = this.outcome();
+            this.settle();
+        });
+    }
+
+    /**
+     * Adds the disposer of a context. Once the resources are disposed, it is
+     * called right away.
+     */
+    add(disposer: Disposer, context: object) {
+        this.disposers.push([disposer, context]);
+        this.settle();
+    }
+
+    fail(error: unknown) {
+        this.failure = { error };
+    }
+
+    /**
+     * Runs a pipeline using the resources, they are not disposed until it
+     * settles.
+     */
+    async run<T>(pipeline: () => Promise<T>): Promise<T> {
+        this.pipelines++;
+        try {
+            return await pipeline();
+        } finally {
+            this.pipelines--;
+            this.settle();
+        }
+    }
+
+    /**
+     * Disposes the resources once the response is closed and no pipeline
+     * uses them.
+     */
+    private settle() {
+        if (this.closed && this.pipelines === 0 && !this.disposing) {
+            void this.dispose(this.closed);
+        }
+    }
+
+    private outcome(): Outcome {
+        if (this.failure) {
+            const { error } = this.failure;
+            return error instanceof Http.End
+                ? { type: "fail", status: error.getStatus(), error }
+                : { type: "error", error };
+        }
+        if (!this.res.writableEnded) {
+            return { type: "error", error: this.signal.reason };
+        }
+        return { type: "success", status: this.res.statusCode };
+    }
+
+    /**
+     * Calls the disposers in the reverse order they were added. Never
+     * rejects: the failures of the disposers are reported.
+     */
+    private async dispose(outcome: Outcome) {
+        this.disposing = true;
+        let entry: [Disposer, object] | undefined;
+        while ((entry = this.disposers.pop())) {
+            const [disposer, context] = entry;
+            try {
+                await disposer.call(context, outcome);
+            } catch (err: unknown) {
+                await this.reportFailure(err);
+            }
+        }
+        this.disposing = false;
+    }
+
+    private async reportFailure(err: unknown) {
+        try {
+            await this.report(err);
+        } catch (failure: unknown) {
+            // The failure of the report is reported as well, once: when it
+            // fails again, nothing is left to report it to
+            await Promise.resolve()
+                .then(() => this.report(failure))
+                .catch(() => {});
+        }
+    }
+}
+
+const scopes = new WeakMap<Request, Scope>();
+
+/**
+ * Opens the scope of a request, once per request.
+ * @param req The request, its `signal` must be initialized.
+ * @param res The response, its end disposes the resources.
+ * @param report Reports the failures of the disposers.
+ */
+export function openScope(
+    req: Request & { signal: AbortSignal },
+    res: Response,
+    report: (err: unknown) => unknown,
+) {
+    if (!scopes.has(req)) {
+        scopes.set(req, new Scope(res, req.signal, report));
+    }
+}
+
+/**
+ * Runs a pipeline of the request, e.g. a Suvidha handler. The resources of
+ * the request are not disposed until it settles, even if the client closed
+ * the connection.
+ * @param req The request.
+ * @param pipeline The pipeline.
+ * @returns The result of the pipeline.
+ */
+export function runScope<T>(
+    req: Request,
+    pipeline: () => Promise<T>,
+): Promise<T> {
+    const scope = scopes.get(req);
+    return scope ? scope.run(pipeline) : pipeline();
+}
+
+/**
+ * Takes the disposer (`Symbol.asyncDispose` or `Symbol.dispose`) out of the
+ * context returned by a middleware, to call it once the request ends.
+ * @param req The request.
+ * @param context The context returned by the middleware.
+ * @returns The context, without its disposer.
+ */
+export function adopt<T>(req: Request, context: T): ContextOf<T> {
+    let adopted: unknown = context;
+    if (hasDisposer(context)) {
+        defer(req, disposerOf(context), context);
+        const {
+            [Symbol.asyncDispose]: _,
+            [Symbol.dispose]: __,
+            ...rest
+        }: Partial<Record<DisposerKey, unknown>> = context;
+        adopted = rest;
+    }
+    // The context, without the disposer it may hold
+    return adopted as ContextOf<T>;
+}
+
+/**
+ * Adds a disposer to the scope of a request, to call it once the request
+ * ends.
+ * @param req The request.
+ * @param disposer The disposer.
+ * @param context The `this` of the disposer.
+ */
+export function defer(req: Request, disposer: Disposer, context: object) {
+    scopes.get(req)?.add(disposer, context);
+}
+
+/**
+ * Records the error a request failed with, for the outcome given to the
+ * disposers.
+ * @param req The request.
+ * @param error The error.
+ */
+export function failScope(req: Request, error: unknown) {
+    scopes.get(req)?.fail(error);
+}
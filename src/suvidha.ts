@@ -1,8 +1,58 @@
-import { z, ZodError } from "zod";
+import { z } from "zod";
 import { Response, Request, NextFunction, RequestHandler } from "express";
 import * as core from "express-serve-static-core";
+import { IncomingHttpHeaders } from "http";
 import { Conn, Handlers } from "./Handlers";
-import { _Readonly, Merge } from "./utils.type";
+import {
+    _Readonly,
+    DeepReadonly,
+    Merge,
+    MergeAll,
+    MergeOptional,
+} from "./utils.type";
+import { headersView, mergeHeaders, ReqHeaders } from "./headers";
+import { parseCookies, signedCookies } from "./cookies";
+import { coerceQuery, CoerceQueryOptions } from "./query";
+import {
+    BodyInput,
+    BodyMap,
+    BodyOf,
+    BodyOptions,
+    contentType,
+    matchContentType,
+    parseBody,
+    readBody,
+} from "./body";
+import {
+    FilesOf,
+    FilesSpec,
+    isMultipart,
+    MultipartOptions,
+    parseMultipart,
+} from "./multipart";
+import { ExampleOptions, generateExample } from "./mock";
+import { adopt, ContextOf, failScope, openScope, runScope } from "./scope";
+import { guard } from "./readonly";
+import { Container, Dependencies, Injected } from "./container";
+import {
+    Applicable,
+    applyBundle,
+    Bundle,
+    BundleTypes,
+    Declared,
+} from "./bundle";
+import { Http, isProtocol, Protocol, StatusCodes } from "./http";
+import {
+    Infer,
+    InferInput,
+    Issue,
+    isSchema,
+    Schema,
+    validate,
+    ValidationError,
+    ValidationResult,
+    zodAdapter,
+} from "./validation";
 
 /**
  * Extends the standard Express.js `Request` object with a `context` property.
@@ -16,6 +66,11 @@ import { _Readonly, Merge } from "./utils.type";
  * @template ReqBody The type of the request body. Defaults to `any`.
  * @template ReqQuery The type of the request query parameters. Defaults to
  * `core.Query` from Express.js.
+ * @template Headers The type of the request headers. Defaults to
+ * `IncomingHttpHeaders` from Node.js.
+ * @template Cookies The type of the request cookies. Defaults to `any`.
+ * @template SignedCookies The type of the signed request cookies. Defaults to `any`.
+ * @template Files The type of the uploaded files. Defaults to `any`.
  *
  * @extends Express.js Request object
  */
@@ -25,6 +80,10 @@ export interface CtxRequest<
     ResBody extends any = any,
     ReqBody extends any = any,
     ReqQuery extends core.Query = core.Query,
+    Headers extends Record<string, any> = IncomingHttpHeaders,
+    Cookies extends any = any,
+    SignedCookies extends any = any,
+    Files extends any = any,
 > extends Request<P, ResBody, ReqBody, ReqQuery> {
     /**
      * An object for storing request-specific data. This is typically used
@@ -32,11 +91,319 @@ export interface CtxRequest<
      * is type-safe according to the generic type `C`.
      */
     context: C;
+
+    /**
+     * The request headers. Headers validated with `Suvidha#headers` are
+     * typed according to the schema, under their lowercased names.
+     */
+    headers: Headers;
+
+    /**
+     * The request cookies, typed according to the schema given to
+     * `Suvidha#cookies`.
+     */
+    cookies: Cookies;
+
+    /**
+     * The signed request cookies, typed according to the schema given to
+     * `Suvidha#signedCookies`.
+     */
+    signedCookies: SignedCookies;
+
+    /**
+     * The files of a `multipart/form-data` request, typed according to the
+     * fields given to `Suvidha#files`.
+     */
+    files: Files;
+
+    /**
+     * Aborted when the client closes the connection, or when the `timeout`
+     * of the route elapses (with an `Http.ServiceUnavailable`). Pass it on
+     * to cancel the work in progress, e.g. `fetch(url, { signal })`.
+     */
+    signal: AbortSignal;
 }
 
 export type Context = Record<string | symbol, any>;
 
-type DataRef = "body" | "query" | "params";
+/**
+ * Type-level options, set for the whole app by declaration merging.
+ *
+ * - `deepReadonly`: when `true`, the context is readonly recursively, see
+ *   {@link DeepReadonly}. Only its root keys are readonly by default.
+ *
+ * ```ts
+ * declare module "suvidha" {
+ *     interface TypeOptions {
+ *         deepReadonly: true;
+ *     }
+ * }
+ * ```
+ */
+export interface TypeOptions {}
+
+/**
+ * The context `C` as given to the middlewares and the handler, readonly
+ * according to {@link TypeOptions}.
+ */
+export type ReadonlyContext<C> = TypeOptions extends { deepReadonly: true }
+    ? DeepReadonly<C>
+    : _Readonly<C>;
+
+export type DataRef =
+    | "body"
+    | "query"
+    | "params"
+    | "headers"
+    | "cookies"
+    | "signedCookies"
+    | "files";
+
+/**
+ * Options to configure the behaviour of `Suvidha`.
+ * @template C The type of the base context. Defaults to `{}`.
+ */
+export interface SuvidhaOptions<C extends Context = {}> {
+    /**
+     * By default, the validation stops at the first invalid request data.
+     * When `true`, request data declared back to back (e.g. `.params().body()`)
+     * are all validated, and `onSchemaErr` is called once with the issues of
+     * all of them. Request data declared after a `use()` are still only
+     * validated after the middleware runs. Defaults to `false`.
+     */
+    aggregateErrors?: boolean;
+
+    /**
+     * By default, the raw query string values are coerced into the types
+     * expected by the Zod schema given to `query()` (numbers, booleans, dates,
+     * arrays, nested objects, ...) before the validation. Set to `false` to
+     * validate the raw values instead, or pass {@link CoerceQueryOptions},
+     * e.g. `{ commaSeparated: false }` not to split arrays on commas.
+     * Defaults to `true`.
+     */
+    coerceQuery?: boolean | CoerceQueryOptions;
+
+    /**
+     * Mock mode, for frontends to work against routes whose handlers don't
+     * exist yet. The request data are still validated and the middlewares
+     * run, but instead of calling the handler, fake data generated from the
+     * reply schema are replied (with the lowest successful status declared).
+     * Routes without a reply schema call their handler. Pass `{ seed }` to
+     * change the generated data, see {@link generateExample}. Defaults to `false`.
+     */
+    mock?: boolean | ExampleOptions;
+
+    /**
+     * The time in milliseconds after which `req.signal` is aborted with an
+     * `Http.ServiceUnavailable`. The pipeline then stops at the next step,
+     * and the error is handled by `onErr`. Defaults to no timeout.
+     */
+    timeout?: number;
+
+    /**
+     * Creates the base context of every request, e.g. a request id and a
+     * logger. Every chain starts with it, before its first step, and it is
+     * typed in `req.context`. Any error thrown is handled by `onErr`.
+     * Defaults to an empty context.
+     */
+    context?: (req: Request, res: Response) => C;
+
+    /**
+     * Guards the context at runtime: a middleware or handler modifying it,
+     * including the objects and arrays nested in it, throws a `TypeError`
+     * with the path of the modified member. Meant for development, e.g.
+     * `guardContext: process.env.NODE_ENV !== "production"`. Defaults to `false`.
+     */
+    guardContext?: boolean;
+
+    /**
+     * The container creating the dependencies injected with `inject()`, see
+     * {@link Container}.
+     */
+    container?: Container;
+}
+
+/**
+ * Schema of the handler output, either a single schema for every
+ * successful (2xx) reply, or a schema per status code.
+ */
+export type ReplySchema = Schema | { [status: number]: Schema };
+
+/**
+ * The type a handler can return when its reply is validated against `T`.
+ */
+export type ReplyOf<T extends ReplySchema> =
+    | (T extends Schema ? InferInput<T> : InferInput<T[keyof T]>)
+    | Http.End
+    | Protocol;
+
+/**
+ * An `Http` class a route may throw, e.g. `Http.NotFound`.
+ */
+export type HttpClass = new () => Http.End;
+
+/**
+ * The schemas declared on a `Suvidha` chain, and the errors it may throw.
+ */
+export interface RouteSchemas {
+    params?: Schema;
+    query?: Schema;
+    headers?: Schema;
+    cookies?: Schema;
+    signedCookies?: Schema;
+    body?: Schema | BodyMap;
+    files?: FilesSpec;
+    reply?: ReplySchema;
+    throws: HttpClass[];
+}
+
+/**
+ * A step of a `Suvidha` chain: the validation of a request data, or a
+ * middleware added with `use()`.
+ */
+export type RouteStep =
+    | { type: "validate"; ref: DataRef; schema: Schema | BodyMap | FilesSpec }
+    | { type: "use"; name: string; middleware: Function };
+
+/**
+ * Describes a `Suvidha` chain: its steps in execution order, its schemas,
+ * and the errors it may throw.
+ */
+export interface RouteDescription extends RouteSchemas {
+    steps: RouteStep[];
+}
+
+declare const route: unique symbol;
+
+/**
+ * The types of a route: its request data as sent by clients, i.e. before
+ * validation, the data of its successful replies, and the `Http` classes it
+ * may throw.
+ */
+export interface RouteTypes<
+    P = any,
+    Q = any,
+    B = any,
+    Reply = any,
+    E extends HttpClass = HttpClass,
+> {
+    params: P;
+    query: Q;
+    body: B;
+    reply: Reply;
+    errors: E;
+}
+
+/**
+ * The request data clients send to a `Suvidha` chain, before validation:
+ * the input types of the schemas given to `params()`, `query()` and `body()`.
+ */
+export type RequestInput = Partial<
+    Record<"params" | "query" | "body", unknown>
+>;
+
+/**
+ * The type of the request data `Ref` sent by clients: its input type, else
+ * `T` when it isn't validated.
+ */
+type InputOf<
+    I extends RequestInput,
+    Ref extends keyof RequestInput,
+    T,
+> = Ref extends keyof I ? I[Ref] : T;
+
+/**
+ * A request handler built by `Suvidha`. Its route types only exist at the
+ * type level, to be read by {@link createClient}.
+ */
+export type SuvidhaHandler<
+    P,
+    Reply,
+    B,
+    Q,
+    T extends RouteTypes,
+> = RequestHandler<P, Reply, B, Q> & { readonly [route]?: T };
+
+/**
+ * The data of the successful replies of a handler returning `Reply`: the
+ * plain values it returns, else the data of its reply schema `R`.
+ */
+type ReplyData<Reply, R> = [Exclude<Reply, Http.End | Protocol>] extends [never]
+    ? 0 extends 1 & R
+        ? unknown
+        : Exclude<R, Http.End | Protocol>
+    : Exclude<Reply, Http.End | Protocol>;
+
+/**
+ * The request given to the steps of a `Suvidha` chain: its context and
+ * request data, as validated so far, are read-only.
+ */
+type StepRequest<
+    C extends Context,
+    P extends core.ParamsDictionary,
+    B,
+    Q extends core.Query,
+    H extends Record<string, any>,
+    K,
+    S,
+    F,
+> = CtxRequest<
+    ReadonlyContext<C>,
+    _Readonly<P>,
+    any,
+    _Readonly<B>,
+    _Readonly<Q>,
+    _Readonly<ReqHeaders<H>>,
+    _Readonly<K>,
+    _Readonly<S>,
+    F
+>;
+
+/**
+ * Names a middleware wrapping others, for `Suvidha#describe`.
+ * @param wrapper The wrapping middleware.
+ * @param middlewares The wrapped middlewares.
+ * @param separator The separator of the names of the wrapped middlewares.
+ * @returns The wrapping middleware.
+ */
+function named<T extends Function>(
+    wrapper: T,
+    middlewares: Function[],
+    separator = " | ",
+) {
+    const name = middlewares
+        .map((middleware) => middleware.name || "anonymous")
+        .join(separator);
+    return Object.defineProperty(wrapper, "name", { value: name });
+}
+
+/**
+ * A middleware given the context `C`, and returning the context `T` to
+ * merge into it.
+ */
+type Middleware<C extends Context, T> = (
+    req: CtxRequest<ReadonlyContext<C>>,
+    res: Response,
+) => Promise<T> | T;
+
+const descriptions = new WeakMap<Function, RouteDescription>();
+
+/**
+ * The controllers of `req.signal`, shared by the `Suvidha` chains of a request.
+ */
+const controllers = new WeakMap<Request, AbortController>();
+
+/**
+ * Describes the `Suvidha` chain a request handler was built from, with
+ * `Suvidha#handler` or `Suvidha#next`.
+ * @param handler The request handler.
+ * @returns The description, or `undefined` if `handler` was not built by `Suvidha`.
+ */
+export function describeHandler(
+    handler: Function,
+): RouteDescription | undefined {
+    return descriptions.get(handler);
+}
 
 /**
  * A utility class for building Express.js route handlers with built-in
@@ -44,11 +411,21 @@ type DataRef = "body" | "query" | "params";
  * schemas for request parameters, body, and query, and chain middleware
  * functions that can enrich the request context.
  *
+ * Instances are immutable: every method of the chain returns a new instance,
+ * so a partial chain can be shared and extended by many routes.
+ *
  * @template B The expected type of the request body after validation. Defaults to `any`.
  * @template P The expected type of the route parameters after validation. Defaults to `core.ParamsDictionary`.
  * @template Q The expected type of the request query parameters after validation. Defaults to `core.Query`.
  * @template C The type of the request context object that will be available in middlewares and handlers. Defaults to `{}`.
  * @template Built A type representing the methods of `Suvidha` that have already been called (used internally to enforce chaining order). Defaults to `never`.
+ * @template H The expected type of the request headers after validation. Defaults to `{}`.
+ * @template K The expected type of the request cookies after validation. Defaults to `any`.
+ * @template S The expected type of the signed request cookies after validation. Defaults to `any`.
+ * @template F The type of the uploaded files. Defaults to `any`.
+ * @template R The type the handler is allowed to return. Defaults to `any`.
+ * @template E The `Http` classes the route may throw. Defaults to `never`.
+ * @template I The request data clients send, before validation, see {@link RequestInput}. Defaults to `{}`.
  */
 export class Suvidha<
     B extends any = any,
@@ -56,33 +433,270 @@ export class Suvidha<
     Q extends core.Query = core.Query,
     C extends Context = {},
     Built extends keyof Suvidha = never,
+    H extends Record<string, any> = {},
+    K extends any = any,
+    S extends any = any,
+    F extends any = any,
+    R extends any = any,
+    E extends HttpClass = never,
+    I extends RequestInput = {},
 > {
     private readonly useHandlers: ((
-        req: CtxRequest<any, any, any, any, any>,
+        req: CtxRequest<any, any, any, any, any, any, any, any, any>,
         res: Response,
     ) => any)[] = [];
     private readonly order: (DataRef | number)[] = [];
-    private schemaMap: Record<DataRef, z.ZodType<any>> = {
+    private schemaMap: Record<DataRef, Schema> = {
         body: z.any(),
         params: z.any(),
         query: z.any(),
+        headers: z.any(),
+        cookies: z.any(),
+        signedCookies: z.any(),
+        files: z.any(),
     };
+    private cookieSecrets?: string[];
+    private bodyTypes?: BodyMap;
+    private bodyOptions?: BodyOptions;
+    private filesSpec?: FilesSpec;
+    private multipartOptions?: MultipartOptions;
+    private readonly multipartIssues = new WeakMap<Request, Issue[]>();
+    private replySchema?: ReplySchema;
+    private readonly errors: HttpClass[] = [];
 
     /**
      * Creates a new instance of the `Suvidha` class.
      * @param handlers An object conforming to the {@link Handlers} interface,
      * containing handler functions for different lifecycle events (e.g., error handling, completion).
+     * @param options Options to configure the behaviour of `Suvidha`, see {@link SuvidhaOptions}.
      */
-    constructor(private readonly handlers: Handlers) {}
+    constructor(
+        private readonly handlers: Handlers,
+        private readonly options: SuvidhaOptions<Context> = {},
+    ) {}
 
     /**
      * Creates a new `Suvidha` instance. This is the preferred way to instantiate the class.
      * @param handlers An object conforming to the {@link Handlers} interface,
      * containing handler functions for different lifecycle events.
+     * @param options Options to configure the behaviour of `Suvidha`, see {@link SuvidhaOptions}.
+     * The chains built from the instance start with the base context
+     * created by `options.context`.
      * @returns A new `Suvidha` instance.
      */
-    static create(handlers: Handlers) {
-        return new Suvidha(handlers);
+    static create<C extends Context = {}>(
+        handlers: Handlers,
+        options?: SuvidhaOptions<C>,
+    ) {
+        return new Suvidha<any, core.ParamsDictionary, core.Query, C>(
+            handlers,
+            options,
+        );
+    }
+
+    /**
+     * Creates a bundle of middlewares, to be applied to any number of routes
+     * with `apply()`, see {@link Bundle}. Each middleware is given the context
+     * added by the previous ones, and the context the first one requires is
+     * the context the bundle requires. Up to 5 middlewares are piped at once,
+     * bundles are composed with `Bundle#apply` beyond.
+     *
+     * ```ts
+     * const tenant = Suvidha.pipe(authenticate, loadTenant);
+     * app.get("/books", suvidha().apply(tenant).handler(...));
+     * ```
+     * @param middlewares The middlewares, see `Suvidha#use`.
+     * @returns A new bundle.
+     */
+    static pipe<T1 extends Context, Req extends Context = {}>(
+        m1: Middleware<Req, T1>,
+    ): Bundle<Req, ContextOf<T1>>;
+    static pipe<
+        T1 extends Context,
+        T2 extends Context,
+        Req extends Context = {},
+    >(
+        m1: Middleware<Req, T1>,
+        m2: Middleware<Merge<Req, ContextOf<T1>>, T2>,
+    ): Bundle<Req, Merge<ContextOf<T1>, ContextOf<T2>>>;
+    static pipe<
+        T1 extends Context,
+        T2 extends Context,
+        T3 extends Context,
+        Req extends Context = {},
+    >(
+        m1: Middleware<Req, T1>,
+        m2: Middleware<Merge<Req, ContextOf<T1>>, T2>,
+        m3: Middleware<Merge<Req, Merge<ContextOf<T1>, ContextOf<T2>>>, T3>,
+    ): Bundle<Req, Merge<Merge<ContextOf<T1>, ContextOf<T2>>, ContextOf<T3>>>;
+    static pipe<
+        T1 extends Context,
+        T2 extends Context,
+        T3 extends Context,
+        T4 extends Context,
+        Req extends Context = {},
+    >(
+        m1: Middleware<Req, T1>,
+        m2: Middleware<Merge<Req, ContextOf<T1>>, T2>,
+        m3: Middleware<Merge<Req, Merge<ContextOf<T1>, ContextOf<T2>>>, T3>,
+        m4: Middleware<
+            Merge<
+                Req,
+                Merge<Merge<ContextOf<T1>, ContextOf<T2>>, ContextOf<T3>>
+            >,
+            T4
+        >,
+    ): Bundle<
+        Req,
+        Merge<
+            Merge<Merge<ContextOf<T1>, ContextOf<T2>>, ContextOf<T3>>,
+            ContextOf<T4>
+        >
+    >;
+    static pipe<
+        T1 extends Context,
+        T2 extends Context,
+        T3 extends Context,
+        T4 extends Context,
+        T5 extends Context,
+        Req extends Context = {},
+    >(
+        m1: Middleware<Req, T1>,
+        m2: Middleware<Merge<Req, ContextOf<T1>>, T2>,
+        m3: Middleware<Merge<Req, Merge<ContextOf<T1>, ContextOf<T2>>>, T3>,
+        m4: Middleware<
+            Merge<
+                Req,
+                Merge<Merge<ContextOf<T1>, ContextOf<T2>>, ContextOf<T3>>
+            >,
+            T4
+        >,
+        m5: Middleware<
+            Merge<
+                Req,
+                Merge<
+                    Merge<Merge<ContextOf<T1>, ContextOf<T2>>, ContextOf<T3>>,
+                    ContextOf<T4>
+                >
+            >,
+            T5
+        >,
+    ): Bundle<
+        Req,
+        Merge<
+            Merge<
+                Merge<Merge<ContextOf<T1>, ContextOf<T2>>, ContextOf<T3>>,
+                ContextOf<T4>
+            >,
+            ContextOf<T5>
+        >
+    >;
+    static pipe(...middlewares: Middleware<any, any>[]) {
+        return middlewares.reduce<any>(
+            (bundle, middleware) => bundle.use(middleware),
+            Bundle.create(),
+        );
+    }
+
+    /**
+     * Adapts an Express.js middleware into a middleware for `use()`. The step
+     * waits for the middleware to call `next()`, then maps what it attached to
+     * the request (e.g. `req.user`) into the context with `extract`.
+     *
+     * ```ts
+     * app.get(
+     *     "/me",
+     *     suvidha()
+     *         .use(Suvidha.fromExpress(passport.authenticate("jwt"), (req) => ({
+     *             user: req.user as User,
+     *         })))
+     *         .handler((req) => req.context.user),
+     * );
+     * ```
+     *
+     * - The error passed to `next(err)` is thrown, i.e. handled by `onErr`.
+     * - If the middleware ends the response instead, the following steps
+     *   don't run.
+     * @param middleware The Express.js middleware, e.g. `cors()`.
+     * @param extract Maps the request into the context to merge, once the
+     * middleware called `next()`. No context is added by default.
+     * @returns A middleware, see `Suvidha#use`.
+     */
+    static fromExpress<T extends Context = {}>(
+        middleware: RequestHandler,
+        extract?: (req: Request, res: Response) => T,
+    ): (req: Request, res: Response) => Promise<T> {
+        const step = async (req: Request, res: Response) => {
+            let ended!: () => void;
+            const passed = await new Promise<boolean>((resolve, reject) => {
+                ended = () => resolve(false);
+                res.once("finish", ended).once("close", ended);
+                try {
+                    middleware(req, res, (err?: unknown) =>
+                        err ? reject(err) : resolve(true),
+                    );
+                } catch (err: unknown) {
+                    reject(err);
+                }
+            }).finally(() => res.off("finish", ended).off("close", ended));
+            return passed && extract ? extract(req, res) : ({} as T);
+        };
+        return named(step, [middleware]);
+    }
+
+    /**
+     * Copies the builder, for a chain method to declare a step on the copy.
+     * Builders are never modified once returned, so a partial chain (e.g.
+     * `const authed = suvidha().use(authenticate)`) can be shared by several
+     * routes: the steps declared so far are shared, the steps declared
+     * after belong to each route.
+     * @template Next The types of the copy once the step is declared, given
+     * by the return type of the chain method.
+     * @param declare Declares the step on the copy.
+     */
+    private fork<Next>(
+        declare: (
+            fork: Suvidha<B, P, Q, C, Built, H, K, S, F, R, E, I>,
+        ) => void,
+    ): Next {
+        const fork = new Suvidha<B, P, Q, C, Built, H, K, S, F, R, E, I>(
+            this.handlers,
+            this.options,
+        );
+        fork.useHandlers.push(...this.useHandlers);
+        fork.order.push(...this.order);
+        fork.schemaMap = { ...this.schemaMap };
+        fork.cookieSecrets = this.cookieSecrets;
+        fork.bodyTypes = this.bodyTypes;
+        fork.bodyOptions = this.bodyOptions;
+        fork.filesSpec = this.filesSpec;
+        fork.multipartOptions = this.multipartOptions;
+        fork.replySchema = this.replySchema;
+        fork.errors.push(...this.errors);
+        declare(fork);
+        /**
+         * The step changes the types of the chain (its context, request data,
+         * reply or errors), which are not necessarily related to the types of
+         * the copy: the chain method gives them as `Next`.
+         */
+        return fork as unknown as Next;
+    }
+
+    /**
+     * Copies the builder, with a middleware added to the copy, see `use()`.
+     * @template Next The types of the copy, given by the chain method.
+     * @param middleware The middleware.
+     */
+    private addMiddleware<Next>(
+        middleware: (
+            req: StepRequest<C, P, B, Q, H, K, S, F>,
+            res: Response,
+        ) => unknown,
+    ): Next {
+        return this.fork((fork) => {
+            fork.order.push(fork.useHandlers.length);
+            fork.useHandlers.push(middleware);
+        });
     }
 
     /**
@@ -91,26 +705,81 @@ export class Suvidha<
      * @param schema The Zod schema to validate the route parameters against.
      * @returns An object that allows chaining other `Suvidha` methods, excluding `params`.
      */
-    params<T extends z.ZodTypeAny>(
+    params<T extends Schema>(
         schema: T,
-    ): Omit<Suvidha<B, z.infer<T>, Q, C, Built>, Built | "params"> {
-        this.schemaMap["params"] = schema;
-        this.order.push("params");
-        return this;
+    ): Omit<
+        Suvidha<
+            B,
+            Infer<T>,
+            Q,
+            C,
+            Built,
+            H,
+            K,
+            S,
+            F,
+            R,
+            E,
+            I & { params: InferInput<T> }
+        >,
+        Built | "params"
+    > {
+        return this.fork((fork) => {
+            fork.schemaMap["params"] = schema;
+            fork.order.push("params");
+        });
     }
 
     /**
      * Defines the Zod schema for the request body.
-     * @template T A Zod schema type for the request body.
-     * @param schema The Zod schema to validate the request body against.
+     *
+     * Given a schema per content type instead, e.g.
+     * `{ "application/json": A, "text/plain": B }`, the request body is read
+     * and parsed by `Suvidha` according to its `Content-Type`, unless it was
+     * already parsed upstream. `req.body` is then a union discriminated by the
+     * matching content type: `{ type: "application/json", data: ... }`.
+     * Requests of another content type raise an `Http.UnsupportedMediaType`,
+     * and bodies exceeding the size limit an `Http.PayloadTooLarge`.
+     * @template T A Zod schema type, or a record of Zod schemas keyed by content type.
+     * @param schema The Zod schema(s) to validate the request body against.
+     * @param options Options to parse the request body, see {@link BodyOptions}.
      * @returns An object that allows chaining other `Suvidha` methods, excluding `body`.
      */
-    body<T extends z.ZodTypeAny>(
+    body<T extends Schema | BodyMap>(
         schema: T,
-    ): Omit<Suvidha<z.infer<T>, P, Q, C, Built>, Built | "body"> {
-        this.schemaMap["body"] = schema;
-        this.order.push("body");
-        return this;
+        options?: BodyOptions,
+    ): Omit<
+        Suvidha<
+            T extends Schema ? Infer<T> : T extends BodyMap ? BodyOf<T> : never,
+            P,
+            Q,
+            C,
+            Built,
+            H,
+            K,
+            S,
+            F,
+            R,
+            E,
+            I & {
+                body: T extends Schema
+                    ? InferInput<T>
+                    : T extends BodyMap
+                      ? BodyInput<T>
+                      : never;
+            }
+        >,
+        Built | "body"
+    > {
+        return this.fork((fork) => {
+            if (isSchema(schema)) {
+                fork.schemaMap["body"] = schema;
+            } else {
+                fork.bodyTypes = schema as BodyMap;
+                fork.bodyOptions = options;
+            }
+            fork.order.push("body");
+        });
     }
 
     /**
@@ -119,12 +788,212 @@ export class Suvidha<
      * @param schema The Zod schema to validate the request query parameters against.
      * @returns An object that allows chaining other `Suvidha` methods, excluding `query`.
      */
-    query<T extends z.ZodTypeAny>(
+    query<T extends Schema>(
+        schema: T,
+    ): Omit<
+        Suvidha<
+            B,
+            P,
+            Infer<T>,
+            C,
+            Built,
+            H,
+            K,
+            S,
+            F,
+            R,
+            E,
+            I & { query: InferInput<T> }
+        >,
+        Built | "query"
+    > {
+        return this.fork((fork) => {
+            fork.schemaMap["query"] = schema;
+            fork.order.push("query");
+        });
+    }
+
+    /**
+     * Defines the Zod schema for the request headers. Header names are
+     * matched case-insensitively, and the validated headers are available on
+     * `req.headers` under their lowercased names.
+     * @template T A Zod schema type for the request headers.
+     * @param schema The Zod schema to validate the request headers against.
+     * @returns An object that allows chaining other `Suvidha` methods, excluding `headers`.
+     */
+    headers<T extends Schema>(
+        schema: T,
+    ): Omit<
+        Suvidha<B, P, Q, C, Built, Infer<T>, K, S, F, R, E, I>,
+        Built | "headers"
+    > {
+        return this.fork((fork) => {
+            fork.schemaMap["headers"] = schema;
+            fork.order.push("headers");
+        });
+    }
+
+    /**
+     * Defines the Zod schema for the request cookies. Cookies are read from
+     * `req.cookies` when `cookie-parser` is mounted, otherwise they are parsed
+     * from the `Cookie` request header.
+     * @template T A Zod schema type for the request cookies.
+     * @param schema The Zod schema to validate the request cookies against.
+     * @returns An object that allows chaining other `Suvidha` methods, excluding `cookies`.
+     */
+    cookies<T extends Schema>(
+        schema: T,
+    ): Omit<
+        Suvidha<B, P, Q, C, Built, H, Infer<T>, S, F, R, E, I>,
+        Built | "cookies"
+    > {
+        return this.fork((fork) => {
+            fork.schemaMap["cookies"] = schema;
+            fork.order.push("cookies");
+        });
+    }
+
+    /**
+     * Defines the Zod schema for the signed request cookies. Signed cookies
+     * are read from `req.signedCookies` when `cookie-parser` is mounted with a
+     * secret, otherwise they are parsed from the `Cookie` request header and
+     * verified against `secret`. Cookies with an invalid signature are `false`.
+     * @template T A Zod schema type for the signed request cookies.
+     * @param schema The Zod schema to validate the signed request cookies against.
+     * @param secret The secret (or secrets, to support rotation) used to sign the cookies.
+     * @returns An object that allows chaining other `Suvidha` methods, excluding `signedCookies`.
+     */
+    signedCookies<T extends Schema>(
         schema: T,
-    ): Omit<Suvidha<B, P, z.infer<T>, C, Built>, Built | "query"> {
-        this.schemaMap["query"] = schema;
-        this.order.push("query");
-        return this;
+        secret?: string | string[],
+    ): Omit<
+        Suvidha<B, P, Q, C, Built, H, K, Infer<T>, F, R, E, I>,
+        Built | "signedCookies"
+    > {
+        return this.fork((fork) => {
+            fork.schemaMap["signedCookies"] = schema;
+            fork.cookieSecrets =
+                secret === undefined
+                    ? undefined
+                    : ([] as string[]).concat(secret);
+            fork.order.push("signedCookies");
+        });
+    }
+
+    /**
+     * Declares the file fields of a `multipart/form-data` request. The body
+     * is parsed as it is received: the count, size and MIME type limits of
+     * each field are enforced before the files are kept in memory. The
+     * uploaded files are available on `req.files`, and the other form fields
+     * on `req.body`, where they are validated by the schema given to `body()`.
+     *
+     * Files exceeding their size limit (10 MiB by default), or the size,
+     * part or header limits of the options, raise an `Http.PayloadTooLarge`,
+     * files with an unaccepted type raise an `Http.UnsupportedMediaType`.
+     * Missing, undeclared and extra files are reported to `onSchemaErr`.
+     * @template T The file fields, keyed by field name.
+     * @param spec The limits of each file field, see {@link FileField}.
+     * @param options Options to parse the request, see {@link MultipartOptions}.
+     * @returns An object that allows chaining other `Suvidha` methods, excluding `files`.
+     */
+    files<T extends FilesSpec>(
+        spec: T,
+        options?: MultipartOptions,
+    ): Omit<
+        Suvidha<B, P, Q, C, Built, H, K, S, FilesOf<T>, R, E, I>,
+        Built | "files"
+    > {
+        return this.fork((fork) => {
+            fork.filesSpec = spec;
+            fork.multipartOptions = options;
+            fork.order.push("files");
+        });
+    }
+
+    /**
+     * Defines the Zod schema for the handler output. The output (or the body of
+     * a returned `Http.End`) is validated, and stripped of unknown fields,
+     * before `Handlers.onComplete` is called.
+     *
+     * A single schema validates every successful (2xx) reply. A schema per
+     * status code validates the replies with that status, and rejects
+     * successful replies with an undeclared status.
+     * @template T A Zod schema, or a record of Zod schemas keyed by status code.
+     * @param schema The Zod schema(s) to validate the handler output against.
+     * @returns An object that allows chaining other `Suvidha` methods, excluding `reply`.
+     */
+    reply<T extends ReplySchema>(
+        schema: T,
+    ): Omit<
+        Suvidha<B, P, Q, C, Built, H, K, S, F, ReplyOf<T>, E, I>,
+        Built | "reply"
+    > {
+        return this.fork((fork) => {
+            fork.replySchema = schema;
+        });
+    }
+
+    /**
+     * Declares the `Http` errors the route may throw, e.g. `Http.NotFound`.
+     * They are not enforced, but documented as the responses of the route,
+     * see {@link generateOpenApi}, and typed as the errors of the route by
+     * {@link createClient}.
+     * @template T The `Http` classes the route may throw.
+     * @param errors The `Http` classes the route may throw.
+     * @returns An object that allows chaining other `Suvidha` methods, excluding `throws`.
+     */
+    throws<T extends HttpClass[]>(
+        ...errors: T
+    ): Omit<
+        Suvidha<B, P, Q, C, Built, H, K, S, F, R, E | T[number], I>,
+        Built | "throws"
+    > {
+        return this.fork((fork) => {
+            fork.errors.push(...errors);
+        });
+    }
+
+    /**
+     * Describes the chain declared so far: its steps in execution order, its
+     * schemas, and the errors it may throw. The request handlers built by
+     * `handler()` and `next()` are described by {@link describeHandler}.
+     * @returns The description of the chain.
+     */
+    describe(): RouteDescription {
+        const steps: RouteStep[] = [];
+        /* The schemas of the request data, by reference */
+        const schemas: Pick<RouteSchemas, DataRef> = {
+            ...this.schemaMap,
+            body: this.bodyTypes ?? this.schemaMap.body,
+            files: this.filesSpec,
+        };
+        const declared: Pick<RouteSchemas, DataRef> = {};
+        const declare = <Ref extends DataRef>(ref: Ref) => {
+            declared[ref] = schemas[ref];
+        };
+        for (const ref of this.order) {
+            if (typeof ref === "number") {
+                const middleware = this.useHandlers[ref]!;
+                steps.push({
+                    type: "use",
+                    name: middleware.name || "anonymous",
+                    middleware,
+                });
+            } else {
+                steps.push({ type: "validate", ref, schema: schemas[ref]! });
+                declare(ref);
+            }
+        }
+
+        const description: RouteDescription = {
+            ...declared,
+            steps,
+            throws: [...this.errors],
+        };
+        if (this.replySchema !== undefined) {
+            description.reply = this.replySchema;
+        }
+        return description;
     }
 
     /**
@@ -139,48 +1008,50 @@ export class Suvidha<
      * @template Reply The expected type of the response body (though this middleware doesn't send a specific response).
      * @returns A typed Express.js `RequestHandler` function.
      */
-    next<Reply>(): RequestHandler<P, Reply, B, Q> {
-        return async (
+    next<Reply>(): SuvidhaHandler<
+        P,
+        Reply,
+        B,
+        Q,
+        RouteTypes<
+            InputOf<I, "params", P>,
+            InputOf<I, "query", Q>,
+            InputOf<I, "body", B>,
+            unknown,
+            E
+        >
+    > {
+        const requestHandler = async (
             req: Request<P, Reply, B, Q>,
             res: Response,
             next: core.NextFunction,
         ) => {
             this.initializeContext<Reply>(req);
             const conn = { req, res };
-            try {
-                for (const ref of this.order) {
-                    if (typeof ref === "string") {
-                        await this.parse(ref, conn, next);
-                        // After parsing, req[ref] will be of the typed schema
-                        if (ref === "body") req.body = conn.req.body;
-                        if (ref === "params") req.params = conn.req.params;
-                        if (ref === "query") req.query = conn.req.query;
-                    } else {
-                        const useFn = this.useHandlers[ref]!;
-                        req.context = {
-                            ...req.context,
-                            ...(await useFn(req, res)),
-                        };
-                    }
-
+            this.initializeSignal(conn);
+            openScope(req, res, (err) =>
+                this.handlers.onPostResponse(err, conn, next),
+            );
+            return runScope(req, async () => {
+                try {
                     /* If any of the middlewares completes the response */
-                    if (res.headersSent) return;
-                }
+                    if (!(await this.execute(conn, next))) return;
+                    req.signal.throwIfAborted();
 
-                /**
-                 * Calls the next middleware function in the Express.js route chain.
-                 * Due to the Zod validation, subsequent middleware or the route
-                 * handler will have access to `req.body`, `req.params`, and
-                 * `req.query` that are typed according to the defined schemas.
-                 */
-                next();
-            } catch (err: unknown) {
-                if (res.headersSent) {
-                    return await this.handlers.onPostResponse(err, conn, next);
+                    /**
+                     * Calls the next middleware function in the Express.js route chain.
+                     * Due to the Zod validation, subsequent middleware or the route
+                     * handler will have access to `req.body`, `req.params`, and
+                     * `req.query` that are typed according to the defined schemas.
+                     */
+                    next();
+                } catch (err: unknown) {
+                    return await this.fail(err, conn, next);
                 }
-                return await this.handlers.onErr(err, conn, next);
-            }
+            });
         };
+        descriptions.set(requestHandler, this.describe());
+        return requestHandler;
     }
 
     /**
@@ -196,63 +1067,679 @@ export class Suvidha<
      */
     use<T extends Context>(
         middleware: (
-            req: CtxRequest<
-                _Readonly<C>,
-                _Readonly<P>,
-                any,
-                _Readonly<B>,
-                _Readonly<Q>
-            >,
+            req: StepRequest<C, P, B, Q, H, K, S, F>,
             res: Response,
         ) => Promise<T> | T,
     ) {
-        this.order.push(this.useHandlers.length);
-        this.useHandlers.push(middleware);
-        /**
-         * This wild cast is required because C and Merge<C, T> are not necessarily
-         * the subtype of each other.
-         */
-        return this as any as Suvidha<B, P, Q, Merge<C, T>, Built>;
+        return this.addMiddleware<
+            Suvidha<B, P, Q, Merge<C, ContextOf<T>>, Built, H, K, S, F, R, E, I>
+        >(middleware);
     }
 
     /**
-     * Asserts that an error is a `ZodError`. If not, it throws an internal error.
-     * @param err The error to check.
-     * @throws {Error} If the error is not an instance of `ZodError`.
+     * Injects dependencies into the context, created by the `container` given
+     * to `Suvidha.create`, see {@link Container}. Request-scoped dependencies
+     * are created once per request, and disposed once it ends.
+     *
+     * ```ts
+     * suvidha()
+     *     .inject({ books: BookRepo, config: Config })
+     *     .handler((req) => req.context.books.list(req.context.config.pageSize));
+     * ```
+     * @template D The tokens of the dependencies.
+     * @param dependencies The tokens of the dependencies, by their name in
+     * the context.
+     * @returns An object that allows chaining other `Suvidha` methods. The context
+     * type `C` is merged with the dependencies.
+     * @throws If no container was given to `Suvidha.create`.
      */
-    private assertZodError(err: unknown): asserts err is ZodError {
-        if (err instanceof ZodError) {
-            return;
+    inject<D extends Dependencies>(dependencies: D) {
+        const { container } = this.options;
+        if (!container) {
+            throw new Error(
+                "Suvidha: inject() requires a container, pass it to Suvidha.create().",
+            );
         }
-        throw new Error(
-            "Suvidha internal error: data validation layer did not throw ZodError." +
-                "\n Please create an issue at https://github.com/ishwar00/suvidha.js/issues" +
-                "\n ====== Error Log ======\n" +
-                err,
+        return this.addMiddleware<
+            Suvidha<B, P, Q, Merge<C, Injected<D>>, Built, H, K, S, F, R, E, I>
+        >(container.inject(dependencies));
+    }
+
+    /**
+     * Adds a middleware to the pipeline, only run when `predicate` holds, e.g.
+     * when a request header is present. Its context is merged like with
+     * `use()`, and is typed as optional since it may not be.
+     *
+     * @template T The type of the context object returned by the middleware.
+     * @param predicate A function that takes the `CtxRequest` and the
+     * `Response`, and tells whether the middleware runs.
+     * @param middleware The middleware, see `Suvidha#use`.
+     * @returns An object that allows chaining other `Suvidha` methods. The context
+     * type `C` is merged with the keys of `T` as optional keys.
+     */
+    useIf<T extends Context>(
+        predicate: (
+            req: StepRequest<C, P, B, Q, H, K, S, F>,
+            res: Response,
+        ) => Promise<boolean> | boolean,
+        middleware: (
+            req: StepRequest<C, P, B, Q, H, K, S, F>,
+            res: Response,
+        ) => Promise<T> | T,
+    ) {
+        const step = named(
+            async (req: StepRequest<C, P, B, Q, H, K, S, F>, res: Response) =>
+                (await predicate(req, res)) ? middleware(req, res) : {},
+            [middleware],
         );
+        return this.addMiddleware<
+            Suvidha<
+                B,
+                P,
+                Q,
+                MergeOptional<C, ContextOf<T>>,
+                Built,
+                H,
+                K,
+                S,
+                F,
+                R,
+                E,
+                I
+            >
+        >(step);
     }
 
     /**
-     * Parses and validates the specified request data (`body`, `query`, or `params`)
-     * against its defined Zod schema.
-     * @param ref A string indicating the request data to parse ('body', 'query', or 'params').
+     * Adds one of two middlewares to the pipeline: `then` when `predicate`
+     * holds, `otherwise` when it doesn't. The context is the union of the
+     * context of both branches, discriminated by the keys (or the literal
+     * values) their middlewares return.
+     *
+     * @template T The type of the context object returned by `then`.
+     * @template U The type of the context object returned by `otherwise`.
+     * @param predicate A function that takes the `CtxRequest` and the
+     * `Response`, and tells which middleware runs.
+     * @param then The middleware run when `predicate` holds, see `Suvidha#use`.
+     * @param otherwise The middleware run when it doesn't.
+     * @returns An object that allows chaining other `Suvidha` methods. The context
+     * type is `C` merged with either `T` or `U`.
+     */
+    useWhen<T extends Context, U extends Context>(
+        predicate: (
+            req: StepRequest<C, P, B, Q, H, K, S, F>,
+            res: Response,
+        ) => Promise<boolean> | boolean,
+        then: (
+            req: StepRequest<C, P, B, Q, H, K, S, F>,
+            res: Response,
+        ) => Promise<T> | T,
+        otherwise: (
+            req: StepRequest<C, P, B, Q, H, K, S, F>,
+            res: Response,
+        ) => Promise<U> | U,
+    ) {
+        const step = named(
+            async (req: StepRequest<C, P, B, Q, H, K, S, F>, res: Response) =>
+                (await predicate(req, res))
+                    ? then(req, res)
+                    : otherwise(req, res),
+            [then, otherwise],
+        );
+        return this.addMiddleware<
+            Suvidha<
+                B,
+                P,
+                Q,
+                Merge<C, ContextOf<T>> | Merge<C, ContextOf<U>>,
+                Built,
+                H,
+                K,
+                S,
+                F,
+                R,
+                E,
+                I
+            >
+        >(step);
+    }
+
+    /**
+     * Adds independent middlewares to the pipeline, run concurrently. Their
+     * contexts are merged in the order the middlewares are declared, whatever
+     * the order they complete in. When one of them throws, the others are
+     * cancelled through the `AbortSignal` they are given, and the error is
+     * handled by `onErr`. The signal is aborted along with `req.signal` too.
+     *
+     * @template T The types of the context objects returned by the middlewares.
+     * @param middlewares The middlewares, see `Suvidha#use`. They are also given
+     * an `AbortSignal`, aborted with the error when another middleware throws.
+     * @returns An object that allows chaining other `Suvidha` methods. The context
+     * type `C` is merged with the context type returned by each middleware.
+     */
+    useAll<T extends Context[]>(
+        middlewares: [
+            ...{
+                [N in keyof T]: (
+                    req: StepRequest<C, P, B, Q, H, K, S, F>,
+                    res: Response,
+                    signal: AbortSignal,
+                ) => Promise<T[N]> | T[N];
+            },
+        ],
+    ) {
+        const step = named(
+            async (req: StepRequest<C, P, B, Q, H, K, S, F>, res: Response) => {
+                const controller = new AbortController();
+                const abort = () => controller.abort(req.signal.reason);
+                req.signal.addEventListener("abort", abort);
+                try {
+                    const contexts = await Promise.all(
+                        middlewares.map(async (middleware) =>
+                            adopt(
+                                req,
+                                await middleware(req, res, controller.signal),
+                            ),
+                        ),
+                    );
+                    return Object.assign({}, ...contexts);
+                } catch (err: unknown) {
+                    controller.abort(err);
+                    throw err;
+                } finally {
+                    req.signal.removeEventListener("abort", abort);
+                }
+            },
+            middlewares,
+            " & ",
+        );
+        return this.addMiddleware<
+            Suvidha<
+                B,
+                P,
+                Q,
+                MergeAll<C, { [N in keyof T]: ContextOf<T[N]> }>,
+                Built,
+                H,
+                K,
+                S,
+                F,
+                R,
+                E,
+                I
+            >
+        >(step);
+    }
+
+    /**
+     * Applies a bundle, i.e. declares its steps (middlewares, request data
+     * schemas and `Http` errors) on the chain, see {@link Bundle}. The context
+     * the bundle requires must be provided by the chain, and the bundle can't
+     * validate the request data the chain already validates.
+     * @param bundle The bundle to apply, e.g. built with `Suvidha.pipe`.
+     * @returns An object that allows chaining other `Suvidha` methods, excluding
+     * the request data validated by the bundle. The context type `C` is merged
+     * with the context type added by the bundle.
+     */
+    apply<
+        X extends BundleTypes<
+            C,
+            Context,
+            unknown,
+            // `any`: passed on to the constrained params, query and headers
+            any,
+            any,
+            any,
+            unknown,
+            unknown,
+            HttpClass,
+            Exclude<DataRef, Built>,
+            RequestInput
+        >,
+    >(
+        bundle: Applicable<X>,
+    ): Omit<
+        Suvidha<
+            Declared<"body", X, B>,
+            Declared<"params", X, P>,
+            Declared<"query", X, Q>,
+            Merge<C, X["context"]>,
+            Built | X["declared"],
+            Declared<"headers", X, H>,
+            Declared<"cookies", X, K>,
+            Declared<"signedCookies", X, S>,
+            F,
+            R,
+            E | X["errors"],
+            I & X["input"]
+        >,
+        Built | X["declared"]
+    > {
+        return applyBundle(bundle, this);
+    }
+
+    /**
+     * Executes the configured steps, i.e. validates the request data and runs
+     * the middlewares, in the order they were declared, after creating the
+     * base context.
      * @param conn An object containing the `req` and `res` objects.
      * @param next The Express.js `NextFunction`.
+     * @returns `false` if a step completed the response, `true` otherwise.
+     */
+    private async execute(conn: Conn, next: NextFunction): Promise<boolean> {
+        const { req, res } = conn;
+        if (this.options.context) {
+            req.context = { ...this.options.context(req, res) };
+        }
+        this.guardContext(req);
+        for (let i = 0; i < this.order.length; i++) {
+            req.signal.throwIfAborted();
+            const ref = this.order[i]!;
+            if (typeof ref === "string") {
+                const refs = [ref];
+                if (this.options.aggregateErrors) {
+                    // Request data declared back to back are validated together
+                    while (typeof this.order[i + 1] === "string") {
+                        refs.push(this.order[++i] as DataRef);
+                    }
+                }
+                await this.parse(refs, conn, next);
+            } else {
+                const useFn = this.useHandlers[ref]!;
+                req.context = {
+                    ...req.context,
+                    ...adopt(req, await useFn(req, res)),
+                };
+                this.guardContext(req);
+            }
+
+            if (res.headersSent) return false;
+        }
+        return true;
+    }
+
+    /**
+     * Parses and validates the specified request data against their defined
+     * schemas. `onSchemaErr` is called once with the issues of every invalid
+     * request data.
+     * @param refs The request data to parse.
+     * @param conn An object containing the `req` and `res` objects.
+     * @param next The Express.js `NextFunction`.
+     */
+    private async parse(refs: DataRef[], conn: Conn, next: NextFunction) {
+        const errors: ValidationError[] = [];
+        for (const ref of refs) {
+            const err = await this.validateRef(ref, conn.req);
+            if (err) errors.push(err);
+        }
+        if (errors.length === 0) {
+            return;
+        }
+
+        const err =
+            errors.length === 1
+                ? errors[0]!
+                : new ValidationError(errors.flatMap((err) => err.issues));
+        conn.req.signal.throwIfAborted();
+        await this.handlers.onSchemaErr(err, conn, next);
+
+        if (!conn.res.headersSent) {
+            console.warn(
+                "Suvidha: onSchemaErr() did not complete the data validation error response. Re-throwing the error.",
+            );
+            throw err;
+        }
+    }
+
+    /**
+     * Validates the specified request data (`body`, `query`, `params`, `headers`,
+     * `cookies`, `signedCookies` or `files`) against its defined schema. On
+     * success, `req[ref]` is replaced by the validated data.
+     * @param ref A string indicating the request data to validate.
+     * @param req The Express.js `Request` object.
+     * @returns The `ValidationError` if the request data is invalid.
+     */
+    private async validateRef(
+        ref: DataRef,
+        req: Request,
+    ): Promise<ValidationError | undefined> {
+        if (ref === "cookies" || ref === "signedCookies") {
+            this.readCookies(req, ref);
+        }
+        if (ref === "body" || ref === "files") {
+            await this.readMultipart(req, ref);
+        }
+        if (ref === "files") {
+            const issues = this.multipartIssues.get(req) ?? [];
+            return issues.length > 0
+                ? this.validationError(ref, { success: false, issues })
+                : undefined;
+        }
+        if (ref === "body" && this.bodyTypes) {
+            return this.validateBody(req, this.bodyTypes);
+        }
+
+        const schema = this.schemaMap[ref];
+        let input = ref === "headers" ? headersView(req.headers) : req[ref];
+        let coercionIssues: Issue[] = [];
+        const coercion = this.options.coerceQuery ?? true;
+        if (ref === "query" && coercion && zodAdapter.accepts(schema)) {
+            ({ data: input, issues: coercionIssues } = coerceQuery(
+                schema,
+                input,
+                coercion === true ? {} : coercion,
+            ));
+        }
+
+        const result = await validate(schema, input);
+
+        if (coercionIssues.length > 0) {
+            // The values that could not be coerced are reported with their raw value
+            const issues = result.success ? [] : result.issues;
+            return this.validationError(ref, {
+                success: false,
+                issues: [
+                    ...coercionIssues,
+                    ...issues.filter(
+                        (issue) =>
+                            !coercionIssues.some((coercion) =>
+                                coercion.path.every(
+                                    (key, i) => issue.path[i] === key,
+                                ),
+                            ),
+                    ),
+                ],
+                cause: result.success ? undefined : result.cause,
+            });
+        }
+
+        if (!result.success) {
+            return this.validationError(ref, result);
+        }
+
+        if (ref === "headers") {
+            req.headers = mergeHeaders(req.headers, result.data);
+        } else {
+            req[ref] = result.data;
+        }
+        return undefined;
+    }
+
+    /**
+     * Validates the request body against the schema of its content type. The
+     * body is read and parsed, unless it was already parsed upstream (e.g. by
+     * `express.json()`). On success, `req.body` is replaced by the content
+     * type and the validated data.
+     * @param req The Express.js `Request` object.
+     * @param map The schemas of the body keyed by content type.
+     * @returns The `ValidationError` if the body is invalid.
+     * @throws {Http.UnsupportedMediaType} If no schema matches the content type.
+     */
+    private async validateBody(
+        req: Request,
+        map: BodyMap,
+    ): Promise<ValidationError | undefined> {
+        const type = matchContentType(map, contentType(req));
+        if (type === undefined) {
+            throw new Http.UnsupportedMediaType(
+                `Expected one of ${Object.keys(map).join(", ")}.`,
+            );
+        }
+
+        const data = req.readableEnded
+            ? req.body
+            : parseBody(
+                  req,
+                  await readBody(req, this.bodyOptions?.limit ?? 100 * 1024),
+              );
+        const result = await validate(map[type]!, data);
+        if (!result.success) {
+            return this.validationError("body", result);
+        }
+
+        req.body = { type, data: result.data };
+        return undefined;
+    }
+
+    /**
+     * Builds the `ValidationError` of a failed validation.
+     * @param location The part of the request (or the reply) that was validated.
+     * @param result The failed validation result.
+     */
+    private validationError(
+        location: ValidationError["issues"][number]["location"],
+        result: Extract<ValidationResult, { success: false }>,
+    ): ValidationError {
+        const issues = result.issues.map((issue) => ({ location, ...issue }));
+        return new ValidationError(issues, result.cause);
+    }
+
+    /**
+     * Populates `req.cookies` and `req.signedCookies` from the `Cookie`
+     * request header, unless `cookie-parser` already did.
+     * @param req The Express.js `Request` object.
+     * @param ref The cookies being validated ('cookies' or 'signedCookies').
+     * @throws {Error} If signed cookies are validated, but there is no secret
+     * to verify them with.
+     */
+    private readCookies(req: Request, ref: "cookies" | "signedCookies") {
+        if (req.cookies === undefined) {
+            req.cookies = parseCookies(req.headers.cookie);
+            if (this.cookieSecrets) {
+                req.signedCookies = signedCookies(
+                    req.cookies,
+                    this.cookieSecrets,
+                );
+            }
+        }
+
+        if (ref === "signedCookies" && !req.signedCookies) {
+            throw new Error(
+                "Suvidha: signedCookies() requires a secret, either mount cookie-parser with a secret or pass it to signedCookies().",
+            );
+        }
+    }
+
+    /**
+     * Parses a `multipart/form-data` request into `req.body` and `req.files`,
+     * once, if `files()` was declared.
+     * @param req The Express.js `Request` object.
+     * @param ref The request data being validated ('body' or 'files').
+     * @throws {Http.UnsupportedMediaType} If the files are validated, but the
+     * request is not `multipart/form-data`.
      */
-    private async parse(ref: DataRef, conn: Conn, next: NextFunction) {
-        try {
-            conn.req[ref] = this.schemaMap[ref].parse(conn.req[ref]);
-        } catch (err: unknown) {
-            this.assertZodError(err);
-            await this.handlers.onSchemaErr(err, conn, next);
+    private async readMultipart(req: Request, ref: "body" | "files") {
+        if (!this.filesSpec || this.multipartIssues.has(req)) {
+            return;
+        }
 
-            if (!conn.res.headersSent) {
-                console.warn(
-                    "Suvidha: onSchemaErr() did not complete the data validation error response. Re-throwing the error.",
+        if (!isMultipart(req)) {
+            if (ref === "files") {
+                throw new Http.UnsupportedMediaType(
+                    "Expected a multipart/form-data request.",
                 );
-                throw err;
             }
+            return;
         }
+
+        const { fields, files, issues } = await parseMultipart(
+            req,
+            this.filesSpec,
+            this.multipartOptions,
+        );
+        req.body = fields;
+        (req as CtxRequest).files = files;
+        this.multipartIssues.set(req, issues);
+    }
+
+    /**
+     * Generates the reply of the handler from the reply schema, in mock mode.
+     * @returns The reply, or `undefined` if the mock mode is off or there is
+     * no schema of a successful reply.
+     */
+    private mockReply(): Http.End | undefined {
+        const { mock } = this.options;
+        if (!mock || this.replySchema === undefined) {
+            return undefined;
+        }
+
+        const options = typeof mock === "object" ? mock : {};
+        if (isSchema(this.replySchema)) {
+            return new Http.End({
+                status: StatusCodes.OK,
+                body: generateExample(this.replySchema, options),
+            });
+        }
+
+        const status = Object.keys(this.replySchema)
+            .map(Number)
+            .filter((status) => status >= 200 && status < 300)
+            .sort((a, b) => a - b)[0];
+        return status === undefined
+            ? undefined
+            : new Http.End({
+                  status,
+                  body: generateExample(this.replySchema[status]!, options),
+              });
+    }
+
+    /**
+     * Validates the handler output against the reply schema.
+     * @param output The value returned by the handler.
+     * @param conn An object containing the `req` and `res` objects.
+     * @param next The Express.js `NextFunction`.
+     * @returns The validated output. If the output does not match the schema
+     * and `Handlers.onReplyErr` lets it through, the original output.
+     */
+    private async validateReply(
+        output: unknown,
+        conn: Conn,
+        next: NextFunction,
+    ): Promise<unknown> {
+        if (this.replySchema === undefined) {
+            return output;
+        }
+
+        const end =
+            isProtocol(output) && !(output instanceof Http.End)
+                ? new Http.End(output)
+                : output;
+        const status = end instanceof Http.End ? end.getStatus() : 200;
+        const body = end instanceof Http.End ? end.getBody() : end;
+        const successful = status >= 200 && status < 300;
+
+        const schema = isSchema(this.replySchema)
+            ? successful
+                ? this.replySchema
+                : undefined
+            : this.replySchema[status];
+
+        let result: ValidationResult;
+        if (schema) {
+            result = await validate(schema, body);
+        } else if (successful) {
+            result = {
+                success: false,
+                issues: [
+                    {
+                        code: "custom",
+                        path: [],
+                        message: `Reply status ${status} is not declared in the reply schema.`,
+                    },
+                ],
+            };
+        } else {
+            return end;
+        }
+
+        if (result.success) {
+            return end instanceof Http.End
+                ? end.body(result.data)
+                : result.data;
+        }
+
+        const err = this.validationError("reply", result);
+        if (!this.handlers.onReplyErr) {
+            throw err;
+        }
+        conn.req.signal.throwIfAborted();
+        await this.handlers.onReplyErr(err, end, conn, next);
+        return end;
+    }
+
+    /**
+     * Guards `req.context` against modifications, if `guardContext` is set.
+     * @param req The request.
+     */
+    private guardContext(req: CtxRequest) {
+        if (this.options.guardContext) {
+            req.context = guard(req.context);
+        }
+    }
+
+    /**
+     * Initializes the `signal` property on the request object, once per
+     * request: it is aborted when the client closes the connection before the
+     * response ends, or when the timeout of the chain elapses.
+     * @param conn An object containing the `req` and `res` objects.
+     */
+    private initializeSignal(conn: Conn) {
+        const { req, res } = conn;
+        let controller = controllers.get(req);
+        if (!controller) {
+            const created = (controller = new AbortController());
+            controllers.set(req, controller);
+            req.signal = controller.signal;
+            res.once("close", () => {
+                if (!res.writableEnded) {
+                    created.abort(
+                        new DOMException(
+                            "The client closed the connection.",
+                            "AbortError",
+                        ),
+                    );
+                }
+            });
+        }
+
+        if (this.options.timeout !== undefined) {
+            const timer = setTimeout(
+                () => controller.abort(new Http.ServiceUnavailable()),
+                this.options.timeout,
+            );
+            res.once("close", () => clearTimeout(timer));
+        }
+    }
+
+    /**
+     * Handles an error thrown by a step or the handler: `onErr` handles it if
+     * the response can still be sent, `onPostResponse` otherwise. The errors
+     * due to the request being aborted (e.g. the `AbortError` of a cancelled
+     * `fetch`) are handled as the reason of the abort, and are not reported
+     * once the client closed the connection.
+     * @param err The error.
+     * @param conn An object containing the `req` and `res` objects.
+     * @param next The Express.js `NextFunction`.
+     */
+    private async fail(err: unknown, conn: Conn, next: NextFunction) {
+        const { req, res } = conn;
+        const aborted =
+            req.signal.aborted &&
+            (err === req.signal.reason ||
+                (typeof err === "object" &&
+                    err !== null &&
+                    "cause" in err &&
+                    err.cause === req.signal.reason));
+        if (aborted) {
+            err = req.signal.reason;
+        }
+        failScope(req, err);
+        if (aborted && res.destroyed) return;
+
+        if (!res.headersSent && !res.destroyed) {
+            return await this.handlers.onErr(err, conn, next);
+        }
+        return await this.handlers.onPostResponse(err, conn, next);
     }
 
     /**
@@ -265,11 +1752,15 @@ export class Suvidha<
     private initializeContext<R>(
         req: any,
     ): asserts req is CtxRequest<
-        _Readonly<C>,
+        ReadonlyContext<C>,
         _Readonly<P>,
         R,
         _Readonly<B>,
-        _Readonly<Q>
+        _Readonly<Q>,
+        _Readonly<ReqHeaders<H>>,
+        _Readonly<K>,
+        _Readonly<S>,
+        F
     > {
         (req as CtxRequest<{}, P, R, B, Q>).context = {};
     }
@@ -278,68 +1769,87 @@ export class Suvidha<
      * Builds the final Express.js `RequestHandler` that executes the configured
      * middlewares, validates the request data, and then calls the provided route handler.
      *
-     * @template Reply The expected type of the response body.
+     * @template Reply The expected type of the response body. Constrained by
+     * the schema given to `reply()`, if any.
      * @param handler An asynchronous or synchronous function that takes a
      * `CtxRequest` (with the accumulated context), a `Response`, and
      * the `NextFunction`. It should return the response body or call
      * `res.send()`, `res.json()`, etc.
      * @returns An Express.js `RequestHandler` function.
      */
-    handler<Reply>(
+    handler<Reply extends R>(
         handler: (
             req: CtxRequest<
-                _Readonly<C>,
+                ReadonlyContext<C>,
                 _Readonly<P>,
                 Reply,
                 _Readonly<B>,
-                _Readonly<Q>
+                _Readonly<Q>,
+                _Readonly<ReqHeaders<H>>,
+                _Readonly<K>,
+                _Readonly<S>,
+                F
             >,
             res: Response<Reply>,
             next: core.NextFunction,
         ) => Reply | Promise<Reply>,
-    ): RequestHandler<P, Reply, B, Q> {
-        return async (
+    ): SuvidhaHandler<
+        P,
+        Reply,
+        B,
+        Q,
+        RouteTypes<
+            InputOf<I, "params", P>,
+            InputOf<I, "query", Q>,
+            InputOf<I, "body", B>,
+            ReplyData<Reply, R>,
+            E
+        >
+    > {
+        const requestHandler = async (
             req: Request<P, Reply, B, Q>,
             res: Response,
             next: core.NextFunction,
         ) => {
             this.initializeContext<Reply>(req);
             const conn = { req, res };
-            try {
-                for (const ref of this.order) {
-                    if (typeof ref === "string") {
-                        await this.parse(ref, conn, next);
-                        // After parsing, req[ref] will be of the typed schema
-                        if (ref === "body") req.body = conn.req.body;
-                        if (ref === "params") req.params = conn.req.params;
-                        if (ref === "query") req.query = conn.req.query;
-                    } else {
-                        const useFn = this.useHandlers[ref]!;
-                        req.context = {
-                            ...req.context,
-                            ...(await useFn(req, res)),
-                        };
-                    }
-
+            this.initializeSignal(conn);
+            openScope(req, res, (err) =>
+                this.handlers.onPostResponse(err, conn, next),
+            );
+            return runScope(req, async () => {
+                try {
                     /* If any of the middleware completes the response */
-                    if (res.headersSent) return;
-                }
+                    if (!(await this.execute(conn, next))) return;
+                    req.signal.throwIfAborted();
 
-                const output = await handler(req, res, next);
+                    const output =
+                        this.mockReply() ?? (await handler(req, res, next));
 
-                if (res.headersSent) {
-                    if (output !== undefined) {
-                        await this.handlers.onPostResponse(output, conn, next);
+                    if (res.headersSent) {
+                        if (output !== undefined) {
+                            await this.handlers.onPostResponse(
+                                output,
+                                conn,
+                                next,
+                            );
+                        }
+                        return;
                     }
-                    return;
-                }
-                await this.handlers.onComplete(output, conn, next);
-            } catch (err: unknown) {
-                if (res.headersSent) {
-                    return await this.handlers.onPostResponse(err, conn, next);
+
+                    req.signal.throwIfAborted();
+                    const reply = await this.validateReply(output, conn, next);
+                    /* If onReplyErr completes the response */
+                    if (res.headersSent) return;
+
+                    req.signal.throwIfAborted();
+                    await this.handlers.onComplete(reply, conn, next);
+                } catch (err: unknown) {
+                    return await this.fail(err, conn, next);
                 }
-                return await this.handlers.onErr(err, conn, next);
-            }
+            });
         };
+        descriptions.set(requestHandler, this.describe());
+        return requestHandler;
     }
 }
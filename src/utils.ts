@@ -0,0 +1,16 @@
+/**
+ * Returns `true` if `value` is an object, and not an array.
+ */
+export function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Returns the values of a TypeScript enum, without the reverse mappings
+ * of its numeric members.
+ */
+export function nativeEnumValues(values: Record<string, string | number>) {
+    return Object.keys(values)
+        .filter((key) => typeof values[values[key]!] !== "number")
+        .map((key) => values[key]!);
+}
@@ -13,9 +13,40 @@ export type Filter<T> = {
 };
 
 /**
- * Merges two types just like spread operator
+ * Merges two types just like spread operator, for each member of T and U
+ * if they are unions
  */
-export type Merge<T, U> = Compute<Omit<T, CommonKeys<T, U>> & U>;
+export type Merge<T, U> = T extends unknown
+    ? U extends unknown
+        ? Compute<Omit<T, CommonKeys<T, U>> & U>
+        : never
+    : never;
+
+/**
+ * Merges the types of U into T one after the other, just like spreading
+ * them in order
+ */
+export type MergeAll<T, U extends unknown[]> = U extends [
+    infer Head,
+    ...infer Tail,
+]
+    ? MergeAll<Merge<T, Head>, Tail>
+    : T;
+
+/**
+ * Merges two types just like spread operator, when U may not be spread:
+ * the keys of U are optional, or keep their type in T as an alternative
+ */
+export type MergeOptional<T, U> = T extends unknown
+    ? Compute<
+          Omit<T, keyof U> & {
+              [P in keyof U as P extends keyof T ? P : never]:
+                  T[P & keyof T] | U[P];
+          } & {
+              [P in keyof U as P extends keyof T ? never : P]?: U[P];
+          }
+      >
+    : never;
 
 /**
  * Force TS to resolve composed types
@@ -25,3 +56,43 @@ export type Merge<T, U> = Compute<Omit<T, CommonKeys<T, U>> & U>;
 export type Compute<T> = T extends infer O ? { [K in keyof O]: O[K] } : never;
 
 export type _Readonly<T> = T extends {} ? Compute<Readonly<T>> : T;
+
+/**
+ * Returns true if T declares a method, e.g. a class instance. Methods are
+ * told apart from function properties (`log: (message: string) => void`) by
+ * their parameters, compared bivariantly: a function taking `never` is only
+ * assignable to a method. Methods without parameters are not told apart
+ */
+export type HasMethods<T> = {
+    [P in keyof T]-?: 0 extends 1 & T[P]
+        ? never
+        : NonNullable<T[P]> extends Function
+          ? ((arg: never) => any) extends NonNullable<T[P]>
+              ? P
+              : never
+          : never;
+}[keyof T] extends never
+    ? false
+    : true;
+
+/**
+ * Makes T readonly recursively. Maps, Sets and arrays become their readonly
+ * counterparts. Functions, Dates and objects with methods (e.g. class
+ * instances) are kept as is, their methods manage their own state. Plain
+ * objects are readonly down to their function properties
+ */
+export type DeepReadonly<T> = 0 extends 1 & T
+    ? T
+    : T extends Function | Date | RegExp | Promise<unknown>
+      ? T
+      : T extends Map<infer K, infer V>
+        ? ReadonlyMap<K, DeepReadonly<V>>
+        : T extends Set<infer V>
+          ? ReadonlySet<DeepReadonly<V>>
+          : T extends readonly unknown[]
+            ? { readonly [I in keyof T]: DeepReadonly<T[I]> }
+            : T extends object
+              ? HasMethods<T> extends true
+                  ? T
+                  : { readonly [P in keyof T]: DeepReadonly<T[P]> }
+              : T;
@@ -0,0 +1,65 @@
+/// <reference lib="es2022.error" />
+import type { DataRef } from "../suvidha";
+
+/**
+ * The part of the request (or the reply) a validation issue was found in.
+ */
+export type Location = DataRef | "reply";
+
+/**
+ * A validation issue, normalized across validation libraries.
+ *
+ * @property {Location} location - The part of the request (or the reply) that failed the validation.
+ * @property {(string | number)[]} path - The path to the invalid value, relative to `location`.
+ * @property {string} message - A human readable description of the issue.
+ * @property {string} code - A machine readable code of the issue, e.g. `invalid_type`.
+ * @property {string} [expected] - What was expected, e.g. `number`, if known.
+ * @property {unknown} [received] - What was received, e.g. `string`, if known.
+ */
+export interface ValidationIssue {
+    location: Location;
+    path: (string | number)[];
+    message: string;
+    code: string;
+    expected?: string;
+    received?: unknown;
+}
+
+/**
+ * Raised when request data (or the handler output) does not match its
+ * schema. It is library-neutral: the issues are normalized, whichever
+ * validation library the schema comes from.
+ */
+export class ValidationError extends Error {
+    /**
+     * @param {ValidationIssue[]} issues - The validation issues.
+     * @param {unknown} [cause] - The error raised by the validation library, if any.
+     */
+    constructor(
+        readonly issues: ValidationIssue[],
+        override readonly cause?: unknown,
+    ) {
+        super(
+            issues
+                .map(
+                    (issue) =>
+                        `${[issue.location, ...issue.path].join(".")}: ${issue.message}`,
+                )
+                .join("\n"),
+        );
+        this.name = "ValidationError";
+    }
+
+    /**
+     * Groups the issues by the part of the request (or the reply) they were
+     * found in.
+     * @returns {Partial<Record<Location, ValidationIssue[]>>} - The issues keyed by location.
+     */
+    byLocation(): Partial<Record<Location, ValidationIssue[]>> {
+        const groups: Partial<Record<Location, ValidationIssue[]>> = {};
+        for (const issue of this.issues) {
+            (groups[issue.location] ??= []).push(issue);
+        }
+        return groups;
+    }
+}
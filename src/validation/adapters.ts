@@ -0,0 +1,218 @@
+import { z, ZodType } from "zod";
+import { StandardSchemaV1 } from "./standardSchema";
+import { ValidationIssue } from "./ValidationError";
+
+/**
+ * The schemas of the validation libraries registered with
+ * `registerAdapter()`, by library. Augment it so that they are accepted
+ * where a {@link Schema} is expected, the data they validate is `unknown`:
+ *
+ * ```ts
+ * declare module "suvidha" {
+ *     interface CustomSchemas {
+ *         joi: Joi.Schema;
+ *     }
+ * }
+ * ```
+ */
+export interface CustomSchemas {}
+
+type CustomSchema = CustomSchemas[keyof CustomSchemas];
+
+/**
+ * A schema accepted by `Suvidha`: a Zod schema, any schema implementing
+ * the Standard Schema interface (Valibot, ArkType, ...), or a schema of a
+ * registered library, see {@link CustomSchemas}.
+ */
+export type Schema = z.ZodTypeAny | StandardSchemaV1 | CustomSchema;
+
+/**
+ * Infers the output type of a schema, i.e. the type of the validated data.
+ */
+export type Infer<S> = S extends z.ZodTypeAny
+    ? z.output<S>
+    : S extends StandardSchemaV1<any, infer O>
+      ? O
+      : S extends CustomSchema
+        ? unknown
+        : never;
+
+/**
+ * Infers the input type of a schema, i.e. the type of the data to validate.
+ */
+export type InferInput<S> = S extends z.ZodTypeAny
+    ? z.input<S>
+    : S extends StandardSchemaV1<infer I, any>
+      ? I
+      : S extends CustomSchema
+        ? unknown
+        : never;
+
+export type Issue = Omit<ValidationIssue, "location">;
+
+export type ValidationResult =
+    | { success: true; data: unknown }
+    | { success: false; issues: Issue[]; cause?: unknown };
+
+/**
+ * Adapts a validation library to `Suvidha`: it validates data against the
+ * schemas of the library, and normalizes the issues they report. Libraries
+ * that don't implement Standard Schema, such as Joi, are supported with an
+ * adapter, see `registerAdapter()`.
+ */
+export interface SchemaAdapter<S = unknown> {
+    /**
+     * Returns `true` if `schema` belongs to the validation library.
+     * @param schema The schema to check.
+     */
+    accepts(schema: unknown): schema is S;
+
+    /**
+     * Validates `data` against `schema`. Errors thrown by the schema itself
+     * (e.g. inside a refinement) are not validation issues, and must be
+     * re-thrown as is.
+     * @param schema The schema to validate `data` against.
+     * @param data The data to validate.
+     */
+    validate(
+        schema: S,
+        data: unknown,
+    ): ValidationResult | Promise<ValidationResult>;
+}
+
+export const zodAdapter: SchemaAdapter<z.ZodTypeAny> = {
+    accepts(schema): schema is z.ZodTypeAny {
+        return schema instanceof ZodType;
+    },
+
+    async validate(schema, data) {
+        // safeParseAsync supports async refinements and transforms as well
+        const result = await schema.safeParseAsync(data);
+        if (result.success) {
+            return { success: true, data: result.data };
+        }
+
+        const issues = result.error.issues.map((issue): Issue => ({
+            path: issue.path,
+            message: issue.message,
+            code: issue.code,
+            ...expectation(issue),
+        }));
+        return { success: false, issues, cause: result.error };
+    },
+};
+
+/**
+ * Extracts what was expected and what was received from a Zod issue.
+ * @param issue The Zod issue.
+ */
+function expectation(issue: z.ZodIssue): Pick<Issue, "expected" | "received"> {
+    switch (issue.code) {
+        case "invalid_type":
+            return { expected: issue.expected, received: issue.received };
+        case "invalid_literal":
+            return {
+                expected: JSON.stringify(issue.expected),
+                received: issue.received,
+            };
+        case "invalid_enum_value":
+            return {
+                expected: issue.options
+                    .map((option) => JSON.stringify(option))
+                    .join(" | "),
+                received: issue.received,
+            };
+        default:
+            return {};
+    }
+}
+
+export const standardSchemaAdapter: SchemaAdapter<StandardSchemaV1> = {
+    accepts(schema): schema is StandardSchemaV1 {
+        return (
+            (typeof schema === "object" || typeof schema === "function") &&
+            schema !== null &&
+            "~standard" in schema &&
+            typeof (schema as StandardSchemaV1)["~standard"]?.validate ===
+                "function"
+        );
+    },
+
+    async validate(schema, data) {
+        const result = await schema["~standard"].validate(data);
+        if (!result.issues) {
+            return { success: true, data: result.value };
+        }
+
+        const issues = result.issues.map((issue): Issue => ({
+            path: (issue.path ?? []).map((segment) => {
+                const key = typeof segment === "object" ? segment.key : segment;
+                return typeof key === "number" ? key : String(key);
+            }),
+            message: issue.message,
+            code: "invalid",
+        }));
+        return { success: false, issues, cause: result };
+    },
+};
+
+/**
+ * The adapters `Suvidha` validates schemas with, in order of precedence.
+ * Zod comes first, since Zod schemas also implement Standard Schema.
+ */
+const adapters: SchemaAdapter<any>[] = [zodAdapter, standardSchemaAdapter];
+
+/**
+ * Registers the adapter of a validation library, for the whole app. It
+ * takes precedence over the adapters registered before it, and over the
+ * built-in ones. Add its schemas to {@link CustomSchemas} to type them.
+ *
+ * ```ts
+ * registerAdapter<Joi.Schema>({
+ *     accepts(schema): schema is Joi.Schema {
+ *         return Joi.isSchema(schema);
+ *     },
+ *     validate(schema, data) {
+ *         const { value, error } = schema.validate(data);
+ *         if (!error) return { success: true, data: value };
+ *         const issues = error.details.map((detail) => ({
+ *             path: detail.path,
+ *             message: detail.message,
+ *             code: detail.type,
+ *         }));
+ *         return { success: false, issues, cause: error };
+ *     },
+ * });
+ * ```
+ * @param adapter The adapter of the library.
+ */
+export function registerAdapter<S>(adapter: SchemaAdapter<S>) {
+    adapters.unshift(adapter);
+}
+
+/**
+ * Returns `true` if `schema` is supported by one of the adapters.
+ * @param schema The value to check.
+ */
+export function isSchema(schema: unknown): schema is Schema {
+    return adapters.some((adapter) => adapter.accepts(schema));
+}
+
+/**
+ * Validates `data` against `schema`, with the adapter supporting it.
+ * @param schema The schema to validate `data` against.
+ * @param data The data to validate.
+ * @throws {Error} If no adapter supports `schema`.
+ */
+export async function validate(
+    schema: Schema,
+    data: unknown,
+): Promise<ValidationResult> {
+    const adapter = adapters.find((adapter) => adapter.accepts(schema));
+    if (!adapter) {
+        throw new Error(
+            "Suvidha: unsupported schema, expected a Zod schema, a Standard Schema or a schema of a registered adapter.",
+        );
+    }
+    return adapter.validate(schema, data);
+}
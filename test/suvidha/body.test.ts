@@ -0,0 +1,180 @@
+import express from "express";
+import { z } from "zod";
+import { Suvidha } from "../../src/suvidha";
+import { Handlers } from "../../src/Handlers";
+import { DefaultHandlers } from "../../src/defaultHandlers";
+
+const request = require("supertest");
+
+describe("Suvidha Library - Body Content Types", () => {
+    let app: express.Express;
+    let mockHandlers: jest.Mocked<Handlers>;
+
+    beforeEach(() => {
+        app = express();
+
+        // Mock Handlers implementation
+        mockHandlers = {
+            onSchemaErr: jest.fn().mockImplementation((err, conn, _) => {
+                conn.res.status(400).json({ errors: err.issues });
+            }),
+            onComplete: jest.fn().mockImplementation((output, conn, _) => {
+                conn.res.status(200).json(output);
+            }),
+            onErr: jest.fn().mockImplementation((err, conn, _) => {
+                new DefaultHandlers().onErr(err, conn);
+            }),
+            onPostResponse: jest.fn(),
+        };
+    });
+
+    const suvidha = () => Suvidha.create(mockHandlers);
+
+    const BookSchema = z.object({
+        name: z.string(),
+        tags: z.array(z.string()),
+    });
+
+    const route = () =>
+        suvidha()
+            .body(
+                {
+                    "application/json": BookSchema,
+                    "application/x-www-form-urlencoded": BookSchema.extend({
+                        tags: z.union([z.string(), z.array(z.string())]),
+                    }),
+                    "text/*": z.string().min(1),
+                },
+                { limit: 1024 },
+            )
+            .handler((req) => {
+                switch (req.body.type) {
+                    case "application/json":
+                        return { json: req.body.data.tags };
+                    case "application/x-www-form-urlencoded":
+                        return {
+                            form: ([] as string[]).concat(req.body.data.tags),
+                        };
+                    case "text/*":
+                        return { text: req.body.data.toUpperCase() };
+                }
+            });
+
+    it("parses JSON bodies", async () => {
+        app.post("/books", route());
+
+        const response = await request(app)
+            .post("/books")
+            .send({ name: "Dune", tags: ["sci-fi"] })
+            .expect(200);
+
+        expect(response.body).toEqual({ json: ["sci-fi"] });
+    });
+
+    it("parses URL encoded bodies", async () => {
+        app.post("/books", route());
+
+        const response = await request(app)
+            .post("/books")
+            .type("form")
+            .send("name=Dune&tags=sci-fi&tags=classic")
+            .expect(200);
+
+        expect(response.body).toEqual({ form: ["sci-fi", "classic"] });
+    });
+
+    it("parses URL encoded keys named after the members of Object", async () => {
+        app.post(
+            "/books",
+            suvidha()
+                .body({
+                    "application/x-www-form-urlencoded": z.object({
+                        constructor: z.string(),
+                        toString: z.string(),
+                    }),
+                })
+                .handler((req) => req.body.data),
+        );
+
+        const response = await request(app)
+            .post("/books")
+            .type("form")
+            .send("constructor=a&toString=b&__proto__=c")
+            .expect(200);
+
+        expect(response.body).toEqual({ constructor: "a", toString: "b" });
+    });
+
+    it("matches wildcard content types", async () => {
+        app.post("/books", route());
+
+        const response = await request(app)
+            .post("/books")
+            .set("Content-Type", "text/markdown")
+            .send("# dune")
+            .expect(200);
+
+        expect(response.body).toEqual({ text: "# DUNE" });
+    });
+
+    it("uses bodies parsed upstream", async () => {
+        app.use(express.json());
+        app.post("/books", route());
+
+        const response = await request(app)
+            .post("/books")
+            .send({ name: "Dune", tags: ["sci-fi"] })
+            .expect(200);
+
+        expect(response.body).toEqual({ json: ["sci-fi"] });
+    });
+
+    it("reports invalid bodies to onSchemaErr", async () => {
+        app.post("/books", route());
+
+        const response = await request(app)
+            .post("/books")
+            .send({ name: "Dune" })
+            .expect(400);
+
+        expect(response.body.errors[0]).toMatchObject({
+            location: "body",
+            path: ["tags"],
+        });
+    });
+
+    it("rejects unknown content types", async () => {
+        app.post("/books", route());
+
+        await request(app)
+            .post("/books")
+            .set("Content-Type", "application/xml")
+            .send("<book />")
+            .expect(415);
+
+        expect(mockHandlers.onComplete).not.toHaveBeenCalled();
+    });
+
+    it("rejects oversized bodies", async () => {
+        app.post("/books", route());
+
+        await request(app)
+            .post("/books")
+            .send({ name: "a".repeat(2048), tags: [] })
+            .expect(413);
+
+        expect(mockHandlers.onComplete).not.toHaveBeenCalled();
+    });
+
+    it("rejects malformed JSON", async () => {
+        app.post("/books", route());
+
+        await request(app)
+            .post("/books")
+            .set("Content-Type", "application/json")
+            .send('{"name":')
+            .expect(400);
+
+        expect(mockHandlers.onSchemaErr).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,165 @@
+import express, { Request } from "express";
+import { z } from "zod";
+import { CtxRequest, Suvidha } from "../../src/suvidha";
+import { Bundle } from "../../src/bundle";
+import { DefaultHandlers } from "../../src/defaultHandlers";
+import { Http } from "../../src/http";
+
+const request = require("supertest");
+
+describe("Suvidha Library - Bundles", () => {
+    let app: express.Express;
+
+    const suvidha = () => Suvidha.create(DefaultHandlers.create());
+
+    type User = { id: string; role: "admin" | "reader" };
+
+    const authenticate = (req: Request) => {
+        if (!req.headers.authorization) throw new Http.Unauthorized();
+        return { user: { id: "u1", role: "admin" } as User };
+    };
+    const loadTenant = (req: CtxRequest<{ user: User }>) => ({
+        tenant: `tenant of ${req.context.user.id}`,
+    });
+
+    const PageSchema = z.object({
+        page: z.coerce.number().int().min(1).default(1),
+    });
+
+    beforeEach(() => {
+        app = express();
+        app.use(express.json());
+    });
+
+    it("applies the middlewares of a bundle in order", async () => {
+        const tenant = Suvidha.pipe(authenticate, loadTenant);
+
+        app.get(
+            "/me",
+            suvidha()
+                .apply(tenant)
+                .use((req) => ({ role: req.context.user.role }))
+                .handler((req) => req.context),
+        );
+
+        const response = await request(app)
+            .get("/me")
+            .set("Authorization", "Bearer token")
+            .expect(200);
+        expect(response.body.data).toEqual({
+            user: { id: "u1", role: "admin" },
+            tenant: "tenant of u1",
+            role: "admin",
+        });
+
+        await request(app).get("/me").expect(401);
+    });
+
+    it("applies the schemas and errors of a bundle", async () => {
+        const paginated = Bundle.create()
+            .query(PageSchema)
+            .throws(Http.BadRequest);
+        const authed = Suvidha.pipe(authenticate).apply(paginated);
+
+        const route = suvidha()
+            .params(z.object({ shelf: z.string() }))
+            .apply(authed)
+            .handler((req) => ({
+                shelf: req.params.shelf,
+                page: req.query.page,
+                user: req.context.user.id,
+            }));
+        app.get("/shelves/:shelf/books", route);
+
+        const response = await request(app)
+            .get("/shelves/sci-fi/books?page=2")
+            .set("Authorization", "Bearer token")
+            .expect(200);
+        expect(response.body.data).toEqual({
+            shelf: "sci-fi",
+            page: 2,
+            user: "u1",
+        });
+
+        await request(app)
+            .get("/shelves/sci-fi/books?page=0")
+            .set("Authorization", "Bearer token")
+            .expect(400);
+
+        expect(
+            suvidha()
+                .apply(authed)
+                .describe()
+                .steps.map((step) => step.type),
+        ).toEqual(["use", "validate"]);
+        expect(suvidha().apply(authed).describe().throws).toEqual([
+            Http.BadRequest,
+        ]);
+    });
+
+    it("requires the context of a bundle", async () => {
+        const tenant = Bundle.create<{ user: User }>().use(loadTenant);
+
+        app.get(
+            "/tenant",
+            suvidha()
+                .use(authenticate)
+                .apply(tenant)
+                .handler((req) => req.context.tenant),
+        );
+
+        const response = await request(app)
+            .get("/tenant")
+            .set("Authorization", "Bearer token")
+            .expect(200);
+        expect(response.body.data).toBe("tenant of u1");
+
+        // @ts-expect-error The context of the chain misses `user`
+        suvidha().apply(tenant);
+        // @ts-expect-error The context of the chain misses `user`
+        suvidha().apply(Suvidha.pipe(loadTenant));
+        // @ts-expect-error The first middleware doesn't provide `user`
+        Suvidha.pipe((_) => ({ admin: true }), loadTenant);
+    });
+
+    it("rejects the request data validated twice", () => {
+        const paginated = Bundle.create().query(PageSchema);
+
+        // @ts-expect-error The query is already validated by the bundle
+        suvidha().apply(paginated).apply(paginated);
+        // @ts-expect-error The query is already validated by the bundle
+        suvidha().apply(paginated).query(PageSchema);
+        // @ts-expect-error The query is already validated by the bundle
+        paginated.apply(paginated);
+    });
+
+    it("applies conditional middlewares", async () => {
+        const impersonation = Bundle.create<{ user: User }>().useIf(
+            (req) => req.context.user.role === "admin",
+            (req) => ({ as: req.headers["x-impersonate"] as string }),
+        );
+
+        app.get(
+            "/me",
+            suvidha()
+                .use(authenticate)
+                .apply(impersonation)
+                .handler((req) => req.context.as ?? req.context.user.id),
+        );
+
+        const response = await request(app)
+            .get("/me")
+            .set("Authorization", "Bearer token")
+            .set("X-Impersonate", "u2")
+            .expect(200);
+        expect(response.body.data).toBe("u2");
+    });
+
+    it("does not modify the bundles", () => {
+        const authed = Suvidha.pipe(authenticate);
+        authed.use(loadTenant);
+        authed.query(PageSchema);
+
+        expect(suvidha().apply(authed).describe().steps).toHaveLength(1);
+    });
+});
@@ -0,0 +1,222 @@
+import express from "express";
+import { Server } from "http";
+import { AddressInfo } from "net";
+import { z } from "zod";
+import { Suvidha } from "../../src/suvidha";
+import { DefaultHandlers } from "../../src/defaultHandlers";
+import { Http } from "../../src/http";
+import { Client, createClient } from "../../src/client";
+
+describe("Suvidha Library - Client", () => {
+    const suvidha = () => Suvidha.create(DefaultHandlers.create());
+
+    const BookSchema = z.object({
+        id: z.number(),
+        name: z.string().min(1),
+        tags: z.array(z.string()),
+    });
+
+    const books = [{ id: 1, name: "Dune", tags: ["sci-fi"] }];
+
+    const findBook = suvidha()
+        .params(z.object({ id: z.coerce.number() }))
+        .query(z.object({ fields: z.array(z.string()).optional() }))
+        .reply(BookSchema)
+        .throws(Http.NotFound)
+        .handler((req) => {
+            const book = books.find(({ id }) => id === req.params.id);
+            if (!book) throw new Http.NotFound();
+            return req.query.fields
+                ? { ...book, name: req.query.fields.join(",") }
+                : book;
+        });
+
+    const createBook = suvidha()
+        .body(BookSchema.omit({ id: true }))
+        .throws(Http.Conflict, Http.Unauthorized)
+        .handler((req) => {
+            if (books.some(({ name }) => name === req.body.name)) {
+                throw new Http.Conflict();
+            }
+            return Http.Created.body({ id: 2, ...req.body });
+        });
+
+    const listChapters = [
+        (_req: express.Request, _res: express.Response, next: () => void) =>
+            next(),
+        suvidha().handler((req) => [`${req.params["id"]}:1`]),
+    ] as const;
+
+    const searchBooks = suvidha()
+        .query(
+            z.object({
+                page: z.number().default(1),
+                since: z.string().transform((date) => new Date(date)),
+            }),
+        )
+        .handler((req) => ({
+            page: req.query.page,
+            year: req.query.since.getFullYear(),
+        }));
+
+    const createNote = suvidha()
+        .body({
+            "application/json": z.object({ text: z.string() }),
+            "text/plain": z.string(),
+        })
+        .handler((req) =>
+            req.body.type === "text/plain" ? req.body.data : req.body.data.text,
+        );
+
+    type Api = {
+        "GET /books/:id": typeof findBook;
+        "POST /books": typeof createBook;
+        "GET /books/:id/chapters": typeof listChapters;
+        "GET /search": typeof searchBooks;
+        "POST /notes": typeof createNote;
+    };
+
+    let server: Server;
+    let client: Client<Api>;
+
+    beforeAll((done) => {
+        const app = express();
+        app.use(express.json());
+        app.get("/books/:id", findBook);
+        app.post("/books", createBook);
+        app.get("/books/:id/chapters", ...listChapters);
+        app.get("/search", searchBooks);
+        app.post("/notes", createNote);
+
+        server = app.listen(0, () => {
+            const { port } = server.address() as AddressInfo;
+            client = createClient<Api>({
+                baseUrl: `http://127.0.0.1:${port}/`,
+            });
+            done();
+        });
+    });
+
+    afterAll((done) => {
+        server.close(done);
+    });
+
+    it("sends typed requests and reads the reply", async () => {
+        const res = await client.get("/books/:id", {
+            params: { id: 1 },
+            query: { fields: ["a", "b"] },
+        });
+
+        expect(res.ok).toBe(true);
+        if (!res.ok) return;
+        expect(res.status).toBe(200);
+        const name: string = res.body.data.name;
+        expect(name).toBe("a,b");
+        expect(res.body).toEqual({
+            status: "success",
+            data: { id: 1, name: "a,b", tags: ["sci-fi"] },
+            meta: {},
+        });
+    });
+
+    it("sends JSON bodies", async () => {
+        const res = await client.post("/books", {
+            body: { name: "Emma", tags: [] },
+        });
+
+        expect(res.status).toBe(201);
+        expect(res.body.data).toEqual({ id: 2, name: "Emma", tags: [] });
+    });
+
+    it("resolves declared errors, discriminated by status", async () => {
+        const res = await client.post("/books", {
+            body: { name: "Dune", tags: [] },
+        });
+
+        expect(res.ok).toBe(false);
+        switch (res.status) {
+            case 409:
+                expect(res.body).toEqual({
+                    status: "fail",
+                    data: "Conflict",
+                    meta: {},
+                });
+                break;
+            default:
+                throw new Error(`Unexpected status ${res.status}`);
+        }
+
+        const missing = await client.get("/books/:id", { params: { id: 9 } });
+        expect(missing.status).toBe(404);
+    });
+
+    it("resolves validation errors", async () => {
+        const res = await client.post("/books", {
+            // @ts-expect-error name must be a string
+            body: { name: 1, tags: [] },
+        });
+
+        expect(res.status).toBe(400);
+        if (res.status !== 400 && res.status !== 422) return;
+        expect(res.body.data.message).toBe(
+            "Data provided does not meet the required format.",
+        );
+        expect(Object.keys(res.body.data.errors)).toEqual(["body"]);
+    });
+
+    it("types the request data by the input of the schemas", async () => {
+        const res = await client.get("/search", {
+            query: { since: "2024-01-31" },
+        });
+
+        expect(res.ok && res.body.data).toEqual({ page: 1, year: 2024 });
+    });
+
+    it("encodes the body according to its content type", async () => {
+        const json = await client.post("/notes", {
+            contentType: "application/json",
+            body: { text: "from json" },
+        });
+        const text = await client.post("/notes", {
+            contentType: "text/plain",
+            body: "from text",
+        });
+
+        expect(json.ok && json.body.data).toBe("from json");
+        expect(text.ok && text.body.data).toBe("from text");
+
+        const check = () => {
+            // @ts-expect-error the content type is required
+            client.post("/notes", { body: "from text" });
+            // @ts-expect-error the body doesn't match the content type
+            client.post("/notes", { contentType: "text/plain", body: {} });
+        };
+        expect(check).toBeDefined();
+    });
+
+    it("types the params of a path without a params schema", async () => {
+        const res = await client.get("/books/:id/chapters", {
+            params: { id: "7" },
+        });
+
+        expect(res.ok && res.body.data).toEqual(["7:1"]);
+    });
+
+    it("rejects requests that do not match the routes", () => {
+        const check = () => {
+            // @ts-expect-error the body is required
+            client.post("/books");
+            // @ts-expect-error the route is not defined
+            client.delete("/books");
+            // @ts-expect-error id is missing
+            client.get("/books/:id", { params: {} });
+        };
+        expect(check).toBeDefined();
+    });
+
+    it("throws on a missing route parameter", async () => {
+        await expect(
+            client.get("/books/:id", { params: {} as { id: number } }),
+        ).rejects.toThrow('the route parameter "id" of /books/:id is missing');
+    });
+});
@@ -0,0 +1,183 @@
+import express from "express";
+import { setTimeout } from "timers/promises";
+import { Suvidha } from "../../src/suvidha";
+import { Bundle } from "../../src/bundle";
+import { Container, InjectionToken } from "../../src/container";
+import { DefaultHandlers } from "../../src/defaultHandlers";
+import { Outcome } from "../../src/scope";
+
+const request = require("supertest");
+
+describe("Suvidha Library - Dependency Injection", () => {
+    let app: express.Express;
+    let container: Container;
+    let connections: number;
+    let disposed: [string, Outcome][];
+
+    type Config = { pageSize: number };
+    const Config = new InjectionToken<Config>("Config");
+
+    class Db {
+        constructor(readonly id: number) {}
+    }
+
+    class BookRepo {
+        constructor(
+            readonly db: Db,
+            readonly tenant: string,
+        ) {}
+
+        list(pageSize: number) {
+            return [`${this.tenant} book`].slice(0, pageSize);
+        }
+
+        async [Symbol.asyncDispose](outcome: Outcome) {
+            disposed.push([this.tenant, outcome]);
+        }
+    }
+
+    const suvidha = () =>
+        Suvidha.create(DefaultHandlers.create(), { container });
+
+    beforeEach(() => {
+        app = express();
+        connections = 0;
+        disposed = [];
+        container = Container.create()
+            .singleton(Config, () => ({ pageSize: 10 }))
+            .singleton(Db, async () => new Db(++connections))
+            .scoped(
+                BookRepo,
+                async (resolve, req) =>
+                    new BookRepo(
+                        await resolve(Db),
+                        req.get("X-Tenant") ?? "default",
+                    ),
+            );
+    });
+
+    it("injects the dependencies into the context", async () => {
+        app.get(
+            "/books",
+            suvidha()
+                .inject({ books: BookRepo, config: Config })
+                .handler((req) =>
+                    req.context.books.list(req.context.config.pageSize),
+                ),
+        );
+        expect(connections).toBe(0);
+
+        const response = await request(app)
+            .get("/books")
+            .set("X-Tenant", "acme")
+            .expect(200);
+        expect(response.body.data).toEqual(["acme book"]);
+    });
+
+    it("creates singletons once, and scoped dependencies once per request", async () => {
+        const repos: BookRepo[] = [];
+        app.get(
+            "/books",
+            suvidha()
+                .inject({ books: BookRepo })
+                .inject({ again: BookRepo, db: Db })
+                .handler((req) => {
+                    expect(req.context.again).toBe(req.context.books);
+                    expect(req.context.books.db).toBe(req.context.db);
+                    repos.push(req.context.books);
+                    return req.context.db.id;
+                }),
+        );
+
+        await request(app).get("/books").expect(200);
+        await request(app).get("/books").expect(200);
+        expect(connections).toBe(1);
+        expect(repos[0]).not.toBe(repos[1]);
+    });
+
+    it("disposes the scoped dependencies once the request ends", async () => {
+        app.get(
+            "/books",
+            suvidha()
+                .inject({ books: BookRepo })
+                .handler(() => "done"),
+        );
+
+        await request(app).get("/books").set("X-Tenant", "acme").expect(200);
+        await setTimeout(10);
+        expect(disposed).toEqual([["acme", { type: "success", status: 200 }]]);
+    });
+
+    it("overrides the dependencies without touching the routes", async () => {
+        app.get(
+            "/books",
+            suvidha()
+                .inject({ books: BookRepo, config: Config })
+                .handler((req) =>
+                    req.context.books.list(req.context.config.pageSize),
+                ),
+        );
+
+        const fake = {
+            list: (pageSize: number) => ["fake", "book"].slice(0, pageSize),
+        } as BookRepo;
+        container
+            .override(BookRepo, () => fake)
+            .override(Config, () => ({ pageSize: 1 }));
+        const response = await request(app).get("/books").expect(200);
+        expect(response.body.data).toEqual(["fake"]);
+
+        container.restore();
+        const restored = await request(app).get("/books").expect(200);
+        expect(restored.body.data).toEqual(["default book"]);
+    });
+
+    it("injects the dependencies of bundles", async () => {
+        const repos = Bundle.create().inject({ books: BookRepo });
+        app.get(
+            "/books",
+            suvidha()
+                .apply(repos)
+                .handler((req) => req.context.books.tenant),
+        );
+
+        const response = await request(app).get("/books").expect(200);
+        expect(response.body.data).toBe("default");
+    });
+
+    it("rejects the invalid dependencies", async () => {
+        class Cache {}
+        class Session {}
+        const A = new InjectionToken<string>("A");
+        const B = new InjectionToken<string>("B");
+        container
+            .singleton(Cache, async (resolve) => (await resolve(BookRepo), {}))
+            .scoped(A, (resolve) => resolve(B))
+            .scoped(B, (resolve) => resolve(A));
+
+        await expect(container.resolve(Session)).rejects.toThrow(
+            "Suvidha: Session is not registered in the container.",
+        );
+        await expect(container.resolve(BookRepo)).rejects.toThrow(
+            "Suvidha: BookRepo is request-scoped, it can only be resolved for a request.",
+        );
+        await expect(container.resolve(Cache)).rejects.toThrow(
+            "Suvidha: the singleton Cache can't depend on the request-scoped BookRepo.",
+        );
+
+        app.get(
+            "/cycle",
+            suvidha()
+                .inject({ a: A })
+                .handler((req) => req.context.a),
+        );
+        await request(app).get("/cycle").expect(500);
+        await expect(
+            container.resolve(A, {} as express.Request),
+        ).rejects.toThrow("Suvidha: circular dependency, A -> B -> A.");
+
+        expect(() =>
+            Suvidha.create(DefaultHandlers.create()).inject({ config: Config }),
+        ).toThrow("Suvidha: inject() requires a container");
+    });
+});
@@ -118,7 +118,7 @@ const books = new BooksController();
         const { status, body } = await request(app).delete(path).send();
 
         const output = await IdSchema.parseAsync({ id }).catch((err) => {
-            return onSchemaErr(err);
+            return onSchemaErr(err, "params");
         });
         const expectedBody = onComplete(output);
 
@@ -0,0 +1,331 @@
+import express from "express";
+import { z } from "zod";
+import { Suvidha } from "../../src/suvidha";
+import { Handlers } from "../../src/Handlers";
+import { DefaultHandlers } from "../../src/defaultHandlers";
+
+const request = require("supertest");
+
+describe("Suvidha Library - Files", () => {
+    let app: express.Express;
+    let mockHandlers: jest.Mocked<Handlers>;
+
+    beforeEach(() => {
+        app = express();
+        app.use(express.json());
+
+        // Mock Handlers implementation
+        mockHandlers = {
+            onSchemaErr: jest.fn().mockImplementation((err, conn, _) => {
+                conn.res.status(400).json({ errors: err.issues });
+            }),
+            onComplete: jest.fn().mockImplementation((output, conn, _) => {
+                conn.res.status(200).json(output);
+            }),
+            onErr: jest.fn().mockImplementation((err, conn, _) => {
+                new DefaultHandlers().onErr(err, conn);
+            }),
+            onPostResponse: jest.fn(),
+        };
+    });
+
+    const suvidha = () => Suvidha.create(mockHandlers);
+
+    const avatar = Buffer.from("89504e47", "hex");
+
+    const route = () =>
+        suvidha()
+            .body(z.object({ title: z.string(), tags: z.array(z.string()) }))
+            .files({
+                avatar: { mimeTypes: ["image/*"], maxSize: 1024 },
+                attachments: { maxCount: 2, required: true },
+            });
+
+    it("parses the form fields and files", async () => {
+        app.post(
+            "/upload",
+            route().handler((req) => ({
+                body: req.body,
+                avatar: req.files.avatar.map((file) => ({
+                    filename: file.filename,
+                    mimeType: file.mimeType,
+                    size: file.size,
+                    content: file.buffer.toString("hex"),
+                })),
+                attachments: req.files.attachments.map((file) => file.size),
+            })),
+        );
+
+        const large = Buffer.alloc(256 * 1024, "a");
+        const response = await request(app)
+            .post("/upload")
+            .field("title", "Report")
+            .field("tags", "a")
+            .field("tags", "b")
+            .attach("avatar", avatar, {
+                filename: "avatar.png",
+                contentType: "image/png",
+            })
+            .attach("attachments", large, "large.txt")
+            .attach("attachments", Buffer.from("b"), "small.txt")
+            .expect(200);
+
+        expect(response.body).toEqual({
+            body: { title: "Report", tags: ["a", "b"] },
+            avatar: [
+                {
+                    filename: "avatar.png",
+                    mimeType: "image/png",
+                    size: 4,
+                    content: "89504e47",
+                },
+            ],
+            attachments: [large.length, 1],
+        });
+    });
+
+    it("streams the uploaded files", async () => {
+        app.post(
+            "/upload",
+            suvidha()
+                .files({ document: {} })
+                .handler(async (req) => {
+                    let content = "";
+                    for await (const chunk of req.files.document[0]!.stream()) {
+                        content += chunk;
+                    }
+                    return { content };
+                }),
+        );
+
+        const response = await request(app)
+            .post("/upload")
+            .attach("document", Buffer.from("hello"), "hello.txt")
+            .expect(200);
+
+        expect(response.body).toEqual({ content: "hello" });
+    });
+
+    it("decodes the filenames of the filename* form only", async () => {
+        app.post(
+            "/upload",
+            suvidha()
+                .files({ document: { maxCount: 2 } })
+                .handler((req) =>
+                    req.files.document.map((file) => file.filename),
+                ),
+        );
+        const body = (...filenames: string[]) =>
+            [
+                ...filenames.flatMap((filename) => [
+                    "--boundary",
+                    `Content-Disposition: form-data; name="document"; ${filename}`,
+                    "",
+                    "content",
+                ]),
+                "--boundary--",
+            ].join("\r\n");
+
+        const response = await request(app)
+            .post("/upload")
+            .set("Content-Type", "multipart/form-data; boundary=boundary")
+            .send(
+                body(
+                    'filename="100%.txt"',
+                    "filename*=UTF-8''r%C3%A9sum%C3%A9.txt",
+                ),
+            )
+            .expect(200);
+        expect(response.body).toEqual(["100%.txt", "résumé.txt"]);
+
+        const malformed = await request(app)
+            .post("/upload")
+            .set("Content-Type", "multipart/form-data; boundary=boundary")
+            .send(body("filename*=UTF-8''100%.txt"))
+            .expect(400);
+        expect(malformed.body.data).toBe('Malformed filename "100%.txt".');
+        expect(mockHandlers.onComplete).toHaveBeenCalledTimes(1);
+    });
+
+    it("rejects files exceeding their size limit", async () => {
+        app.post(
+            "/upload",
+            route().handler(() => ({})),
+        );
+
+        const response = await request(app)
+            .post("/upload")
+            .attach("avatar", Buffer.alloc(2048), {
+                filename: "avatar.png",
+                contentType: "image/png",
+            })
+            .expect(413);
+
+        expect(response.body.data).toBe(
+            'File "avatar.png" exceeds 1024 bytes.',
+        );
+        expect(mockHandlers.onComplete).not.toHaveBeenCalled();
+    });
+
+    it("limits the parts, their headers and the files without maxSize", async () => {
+        app.post(
+            "/upload",
+            suvidha()
+                .files(
+                    { document: {}, avatar: { maxSize: 16 } },
+                    { maxFileSize: 8, maxParts: 2, maxHeaderSize: 256 },
+                )
+                .handler((req) => req.files.avatar.map((file) => file.size)),
+        );
+        const upload = () =>
+            request(app)
+                .post("/upload")
+                .set("Content-Type", "multipart/form-data; boundary=boundary");
+
+        const tooLarge = await request(app)
+            .post("/upload")
+            .attach("document", Buffer.alloc(9), "document.txt")
+            .expect(413);
+        expect(tooLarge.body.data).toBe('File "document.txt" exceeds 8 bytes.');
+
+        const response = await request(app)
+            .post("/upload")
+            .attach("avatar", Buffer.alloc(12), "avatar.png")
+            .expect(200);
+        expect(response.body).toEqual([12]);
+
+        const tooMany = await request(app)
+            .post("/upload")
+            .field("a", "1")
+            .field("b", "2")
+            .field("c", "3")
+            .expect(413);
+        expect(tooMany.body.data).toBe("Expected at most 2 parts.");
+
+        const headers = await upload()
+            .send(`--boundary\r\nX-Padding: ${"a".repeat(512)}`)
+            .expect(413);
+        expect(headers.body.data).toBe(
+            "The headers of a part exceed 256 bytes.",
+        );
+
+        await upload().send("a".repeat(512)).expect(400);
+        expect(mockHandlers.onComplete).toHaveBeenCalledTimes(1);
+    });
+
+    it("rejects files with an unaccepted type", async () => {
+        app.post(
+            "/upload",
+            route().handler(() => ({})),
+        );
+
+        await request(app)
+            .post("/upload")
+            .attach("avatar", avatar, {
+                filename: "avatar.pdf",
+                contentType: "application/pdf",
+            })
+            .expect(415);
+
+        expect(mockHandlers.onComplete).not.toHaveBeenCalled();
+    });
+
+    it("reports missing, unexpected and extra files to onSchemaErr", async () => {
+        app.post(
+            "/upload",
+            suvidha()
+                .files({
+                    avatar: { required: true },
+                    attachments: { maxCount: 1 },
+                })
+                .handler(() => ({})),
+        );
+
+        const response = await request(app)
+            .post("/upload")
+            .attach("attachments", Buffer.from("a"), "a.txt")
+            .attach("attachments", Buffer.from("b"), "b.txt")
+            .attach("other", Buffer.from("c"), "c.txt")
+            .expect(400);
+
+        expect(response.body.errors).toEqual([
+            {
+                location: "files",
+                path: ["attachments", 1],
+                message: 'Expected at most 1 file(s) for "attachments".',
+                code: "too_many_files",
+            },
+            {
+                location: "files",
+                path: ["other"],
+                message: 'Unexpected file field "other".',
+                code: "unexpected_file",
+            },
+            {
+                location: "files",
+                path: ["avatar"],
+                message: 'File "avatar" is required.',
+                code: "required",
+            },
+        ]);
+    });
+
+    it("parses the fields named after the members of Object", async () => {
+        app.post(
+            "/upload",
+            suvidha()
+                .body(z.object({ constructor: z.string() }))
+                .files({ avatar: {} })
+                .handler((req) => ({
+                    body: req.body,
+                    files: Object.keys(req.files),
+                })),
+        );
+
+        const response = await request(app)
+            .post("/upload")
+            .field("constructor", "a")
+            .attach("toString", Buffer.from("b"), "b.txt")
+            .attach("__proto__", Buffer.from("c"), "c.txt")
+            .expect(400);
+        expect(response.body.errors).toEqual([
+            {
+                location: "files",
+                path: ["toString"],
+                message: 'Unexpected file field "toString".',
+                code: "unexpected_file",
+            },
+            {
+                location: "files",
+                path: ["__proto__"],
+                message: 'Unexpected file field "__proto__".',
+                code: "unexpected_file",
+            },
+        ]);
+
+        const fields = await request(app)
+            .post("/upload")
+            .field("constructor", "a")
+            .field("toString", "b")
+            .field("__proto__", "c")
+            .expect(200);
+        expect(fields.body).toEqual({
+            body: { constructor: "a" },
+            files: ["avatar"],
+        });
+    });
+
+    it("rejects requests that are not multipart/form-data", async () => {
+        app.post(
+            "/upload",
+            route().handler(() => ({})),
+        );
+
+        await request(app)
+            .post("/upload")
+            .send({ title: "Report", tags: [] })
+            .expect(415);
+
+        expect(mockHandlers.onComplete).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,106 @@
+import express from "express";
+import { z } from "zod";
+import { Suvidha } from "../../src/suvidha";
+import { DefaultHandlers } from "../../src/defaultHandlers";
+import { Http } from "../../src/http";
+import { describeApp } from "../../src/introspect";
+import { describeHandler } from "../../src/suvidha";
+
+describe("Suvidha Library - Introspection", () => {
+    const suvidha = () => Suvidha.create(DefaultHandlers.create());
+
+    const ParamsSchema = z.object({ id: z.string() });
+    const BookSchema = z.object({ name: z.string() });
+
+    function authenticate() {
+        return { user: { id: 1 } };
+    }
+
+    const chain = () =>
+        suvidha()
+            .params(ParamsSchema)
+            .use(authenticate)
+            .use(() => ({ tenant: "acme" }))
+            .body(BookSchema)
+            .reply(BookSchema)
+            .throws(Http.NotFound, Http.Forbidden);
+
+    it("describes the steps of a chain", () => {
+        const description = chain().describe();
+
+        expect(description.steps).toEqual([
+            { type: "validate", ref: "params", schema: ParamsSchema },
+            { type: "use", name: "authenticate", middleware: authenticate },
+            {
+                type: "use",
+                name: "anonymous",
+                middleware: expect.any(Function),
+            },
+            { type: "validate", ref: "body", schema: BookSchema },
+        ]);
+        expect(description.params).toBe(ParamsSchema);
+        expect(description.body).toBe(BookSchema);
+        expect(description.query).toBeUndefined();
+        expect(description.reply).toBe(BookSchema);
+        expect(description.throws).toEqual([Http.NotFound, Http.Forbidden]);
+    });
+
+    it("describes built request handlers", () => {
+        const route = chain();
+        const handler = route.handler((req) => req.body);
+
+        expect(describeHandler(handler)).toEqual(route.describe());
+        expect(describeHandler(() => {})).toBeUndefined();
+    });
+
+    it("collects the Suvidha routes of an app", () => {
+        const app = express();
+        const router = express.Router({ mergeParams: true });
+
+        router.get(
+            "/chapters",
+            suvidha()
+                .query(z.object({ page: z.number() }))
+                .handler(() => []),
+        );
+        router.post("/chapters", (_req, res) => res.end());
+
+        app.use("/books/:id", router);
+        app.put(
+            "/books/:id",
+            suvidha().params(ParamsSchema).next(),
+            chain().handler((req) => req.body),
+        );
+
+        const routes = describeApp(app);
+
+        expect(routes.map(({ method, path }) => ({ method, path }))).toEqual([
+            { method: "get", path: "/books/:id/chapters" },
+            { method: "put", path: "/books/:id" },
+            { method: "put", path: "/books/:id" },
+        ]);
+        expect(routes[0]!.description.steps).toEqual([
+            { type: "validate", ref: "query", schema: expect.anything() },
+        ]);
+        expect(routes[2]!.description.throws).toEqual([
+            Http.NotFound,
+            Http.Forbidden,
+        ]);
+    });
+
+    it("collects the Suvidha routes of a router mounted at a path", () => {
+        const router = express.Router();
+        router.get(
+            "/chapters",
+            suvidha().handler(() => []),
+        );
+
+        expect(describeApp(express())).toEqual([]);
+        expect(
+            describeApp(router, "/books/:id").map(({ method, path }) => ({
+                method,
+                path,
+            })),
+        ).toEqual([{ method: "get", path: "/books/:id/chapters" }]);
+    });
+});
@@ -0,0 +1,201 @@
+import { z } from "zod";
+import { Suvidha } from "../../src/suvidha";
+import { DefaultHandlers } from "../../src/defaultHandlers";
+import { RouteRegistry } from "../../src/registry";
+import {
+    generateJsonSchemas,
+    JsonSchemaWarning,
+    toJsonSchema,
+} from "../../src/openapi";
+
+describe("Suvidha Library - JSON Schema", () => {
+    type Category = { name: string; children: Category[] };
+    const CategorySchema: z.ZodType<Category> = z.lazy(() =>
+        z.object({ name: z.string(), children: z.array(CategorySchema) }),
+    );
+
+    let warnings: JsonSchemaWarning[];
+    const onWarning = (warning: JsonSchemaWarning) => warnings.push(warning);
+
+    beforeEach(() => {
+        warnings = [];
+    });
+
+    it("defines recursive schemas once", () => {
+        const json = toJsonSchema(
+            z.object({ root: CategorySchema, other: CategorySchema }),
+            "input",
+            { onWarning },
+        );
+
+        expect(json).toEqual({
+            type: "object",
+            properties: {
+                root: { $ref: "#/$defs/Recursive1" },
+                other: { $ref: "#/$defs/Recursive1" },
+            },
+            required: ["root", "other"],
+            $defs: {
+                Recursive1: {
+                    type: "object",
+                    properties: {
+                        name: { type: "string" },
+                        children: {
+                            type: "array",
+                            items: { $ref: "#/$defs/Recursive1" },
+                        },
+                    },
+                    required: ["name", "children"],
+                },
+            },
+        });
+        expect(warnings).toEqual([]);
+    });
+
+    it("describes unions and optionals", () => {
+        const json = toJsonSchema(
+            z.object({
+                id: z.union([z.string().uuid(), z.number().int()]),
+                note: z.string().nullable().optional(),
+                count: z.number().default(0),
+            }),
+            "output",
+            { onWarning },
+        );
+
+        expect(json).toEqual({
+            type: "object",
+            properties: {
+                id: {
+                    anyOf: [
+                        { type: "string", format: "uuid" },
+                        { type: "integer" },
+                    ],
+                },
+                note: { anyOf: [{ type: "string" }, { type: "null" }] },
+                count: { type: "number", default: 0 },
+            },
+            required: ["id", "count"],
+        });
+        expect(warnings).toEqual([]);
+    });
+
+    it("warns about what can't be represented", () => {
+        const schema = z.object({
+            password: z.string().refine((value) => /\d/.test(value)),
+            tags: z.string().transform((value) => value.split(",")),
+            "a/b": z.map(z.string(), z.number()),
+        });
+
+        expect(toJsonSchema(schema, "input", { onWarning })).toMatchObject({
+            properties: {
+                password: { type: "string" },
+                tags: { type: "string" },
+                "a/b": {},
+            },
+        });
+        expect(warnings).toEqual([
+            {
+                pointer: "/properties/password",
+                message:
+                    "Refinements can't be represented, only the refined schema is described.",
+            },
+            {
+                pointer: "/properties/a~1b",
+                message:
+                    "z.map() can't be represented, described as any value.",
+            },
+        ]);
+
+        warnings = [];
+        expect(toJsonSchema(schema, "output", { onWarning })).toMatchObject({
+            properties: { tags: {} },
+        });
+        expect(warnings.map(({ pointer }) => pointer)).toEqual([
+            "/properties/password",
+            "/properties/tags",
+            "/properties/a~1b",
+        ]);
+        expect(warnings[1]!.message).toMatch(
+            "The output of a transform is not known",
+        );
+    });
+
+    it("logs warnings by default", () => {
+        const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+        toJsonSchema(z.object({ at: z.symbol() }));
+        expect(warn).toHaveBeenCalledWith(
+            "Suvidha: z.symbol() can't be represented, described as any value. (at /properties/at)",
+        );
+        warn.mockRestore();
+    });
+
+    it("generates the JSON Schemas of routes", () => {
+        const suvidha = () => Suvidha.create(DefaultHandlers.create());
+        const registry = RouteRegistry.create()
+            .get(
+                "/categories/:id",
+                suvidha()
+                    .params(z.object({ id: z.coerce.number() }))
+                    .query(z.object({ depth: z.number().optional() }))
+                    .reply(CategorySchema)
+                    .handler(() => ({ name: "Books", children: [] })),
+            )
+            .post(
+                "/categories",
+                suvidha()
+                    .body({
+                        "application/json": CategorySchema,
+                        "text/plain": z.string(),
+                    })
+                    .reply({
+                        201: z.object({
+                            id: z.string().transform(Number),
+                        }),
+                    })
+                    .handler(() => ({ id: "1" })),
+            );
+
+        const schemas = generateJsonSchemas(registry, { onWarning });
+
+        expect(Object.keys(schemas)).toEqual([
+            "GET /categories/:id",
+            "POST /categories",
+        ]);
+        const find = schemas["GET /categories/:id"]!;
+        expect(find.params).toEqual({
+            $schema: "https://json-schema.org/draft/2020-12/schema",
+            type: "object",
+            properties: { id: { type: "number" } },
+            required: ["id"],
+        });
+        expect(find.query!["required"]).toBeUndefined();
+        expect(find.body).toBeUndefined();
+        expect(find.replies!["2XX"]).toMatchObject({
+            $schema: "https://json-schema.org/draft/2020-12/schema",
+            $ref: "#/$defs/Recursive1",
+            $defs: { Recursive1: { type: "object" } },
+        });
+
+        const create = schemas["POST /categories"]!;
+        expect(Object.keys(create.body!)).toEqual([
+            "application/json",
+            "text/plain",
+        ]);
+        expect(create.body!["text/plain"]).toEqual({
+            $schema: "https://json-schema.org/draft/2020-12/schema",
+            type: "string",
+        });
+        expect(Object.keys(create.replies!)).toEqual(["201"]);
+        expect(warnings).toEqual([
+            {
+                route: "POST /categories",
+                location: "reply 201",
+                pointer: "/properties/id",
+                message: expect.stringContaining(
+                    "The output of a transform is not known",
+                ),
+            },
+        ]);
+    });
+});
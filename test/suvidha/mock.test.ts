@@ -0,0 +1,146 @@
+import express from "express";
+import { z } from "zod";
+import { Suvidha } from "../../src/suvidha";
+import { DefaultHandlers } from "../../src/defaultHandlers";
+import { generateExample } from "../../src/mock";
+
+const request = require("supertest");
+
+describe("Suvidha Library - Mock Mode", () => {
+    const Status = { Draft: 0, Published: 1 } as const;
+
+    const BookSchema = z.object({
+        id: z.string().uuid(),
+        title: z.string().min(3).max(40),
+        isbn: z.string().length(13).startsWith("978"),
+        author: z.object({
+            email: z.string().email(),
+            website: z.string().url().optional(),
+        }),
+        genre: z.enum(["fiction", "poetry", "history"]),
+        status: z.nativeEnum(Status),
+        pages: z.number().int().min(1).max(2000),
+        price: z.number().positive().multipleOf(0.01),
+        tags: z.array(z.string().toLowerCase()).min(2).max(4),
+        ratings: z.array(z.number().min(1).max(5)).length(3),
+        publishedAt: z.string().datetime(),
+        edition: z.union([z.literal("first"), z.number().int().gte(2)]),
+        price2: z
+            .number()
+            .refine((price) => price > 50, "Must be over 50")
+            .nullable(),
+    });
+
+    type Category = { name: string; children: Category[] };
+    const CategorySchema: z.ZodType<Category> = z.lazy(() =>
+        z.object({ name: z.string(), children: z.array(CategorySchema) }),
+    );
+
+    describe("generateExample", () => {
+        it("respects the constraints of the schema", () => {
+            for (let seed = 1; seed <= 50; seed++) {
+                const book = generateExample(BookSchema, { seed });
+                expect(BookSchema.safeParse(book)).toMatchObject({
+                    success: true,
+                });
+            }
+        });
+
+        it("is deterministic", () => {
+            expect(generateExample(BookSchema, { seed: 7 })).toEqual(
+                generateExample(BookSchema, { seed: 7 }),
+            );
+            expect(generateExample(BookSchema, { seed: 7 })).not.toEqual(
+                generateExample(BookSchema, { seed: 8 }),
+            );
+            expect(generateExample(BookSchema)).toEqual(
+                generateExample(BookSchema, { seed: 1 }),
+            );
+        });
+
+        it("ends recursive schemas", () => {
+            const category = generateExample(CategorySchema, { seed: 3 });
+            expect(CategorySchema.safeParse(category).success).toBe(true);
+        });
+
+        it("generates the input of transforms", () => {
+            const schema = z.object({
+                at: z.coerce.date(),
+                ids: z.string().transform((ids) => ids.split(",")),
+            });
+            const example = generateExample(schema, { seed: 2 });
+            expect(typeof example.ids).toBe("string");
+            expect(example.at).toBeInstanceOf(Date);
+        });
+    });
+
+    describe("mock mode", () => {
+        let app: express.Express;
+        let handler: jest.Mock;
+
+        const suvidha = (seed?: number) =>
+            Suvidha.create(DefaultHandlers.create(), {
+                mock: seed === undefined ? true : { seed },
+            });
+
+        beforeEach(() => {
+            app = express();
+            app.use(express.json());
+            handler = jest.fn();
+        });
+
+        it("replies with fake data after the validation and middlewares", async () => {
+            const middleware = jest.fn(() => ({ user: "admin" }));
+            app.get(
+                "/books/:id",
+                suvidha()
+                    .params(z.object({ id: z.coerce.number() }))
+                    .use(middleware)
+                    .reply(BookSchema)
+                    .handler(handler),
+            );
+
+            const first = await request(app).get("/books/1").expect(200);
+            const second = await request(app).get("/books/1").expect(200);
+
+            expect(middleware).toHaveBeenCalledTimes(2);
+            expect(handler).not.toHaveBeenCalled();
+            expect(BookSchema.safeParse(first.body.data).success).toBe(true);
+            expect(second.body.data).toEqual(first.body.data);
+
+            await request(app).get("/books/one").expect(400);
+            expect(middleware).toHaveBeenCalledTimes(2);
+        });
+
+        it("replies with the lowest successful status declared", async () => {
+            app.post(
+                "/books",
+                suvidha(42)
+                    .body(BookSchema.pick({ title: true }))
+                    .reply({
+                        409: z.object({ reason: z.string() }),
+                        202: z.object({ queued: z.boolean() }),
+                        201: BookSchema,
+                    })
+                    .handler(handler),
+            );
+
+            const response = await request(app)
+                .post("/books")
+                .send({ title: "Dune" })
+                .expect(201);
+            expect(response.body.data).toEqual(
+                generateExample(BookSchema, { seed: 42 }),
+            );
+            expect(handler).not.toHaveBeenCalled();
+        });
+
+        it("calls the handler of routes without a reply schema", async () => {
+            handler.mockReturnValue("real");
+            app.get("/health", suvidha().handler(handler));
+
+            const response = await request(app).get("/health").expect(200);
+            expect(response.body.data).toBe("real");
+        });
+    });
+});
@@ -18,7 +18,7 @@ describe("Suvidha Library - next() Middleware", () => {
         // Mock Handlers implementation
         mockHandlers = {
             onSchemaErr: jest.fn().mockImplementation((err, conn, _) => {
-                conn.res.status(400).json({ errors: err.errors });
+                conn.res.status(400).json({ errors: err.issues });
             }),
             onComplete: jest.fn().mockImplementation((output, conn, _) => {
                 conn.res.status(200).json(output);
@@ -1,8 +1,15 @@
 import express from "express";
 import { z } from "zod";
-import { Suvidha } from "../../src/suvidha";
+import { Context, Suvidha } from "../../src/suvidha";
+import { Http } from "../../src/http";
+import { ValidationError } from "../../src/validation";
 import { Handlers } from "../../src/Handlers";
+import { Outcome } from "../../src/scope";
+import { DeepReadonly } from "../../src/utils.type";
 import { setTimeout } from "timers/promises";
+import { createHmac } from "crypto";
+import http from "http";
+import { AddressInfo } from "net";
 
 const request = require("supertest");
 
@@ -19,7 +26,7 @@ describe("Suvidha Library", () => {
         // Mock Handlers implementation
         mockHandlers = {
             onSchemaErr: jest.fn().mockImplementation((err, conn, _) => {
-                conn.res.status(400).json({ errors: err.errors });
+                conn.res.status(400).json({ errors: err.issues });
             }),
             onComplete: jest.fn().mockImplementation((output, conn, _) => {
                 conn.res.status(200).json(output);
@@ -115,6 +122,137 @@ describe("Suvidha Library", () => {
             expect(response.body.errors).toBeDefined();
             expect(mockHandlers.onSchemaErr).toHaveBeenCalled();
         });
+
+        it("validates headers case-insensitively", async () => {
+            app.get(
+                "/test",
+                suvidha()
+                    .headers(
+                        z.object({
+                            "X-Tenant-Id": z.string().uuid(),
+                            "x-retries": z.coerce.number(),
+                        }),
+                    )
+                    .use((req) => ({ tenant: req.headers["x-tenant-id"] }))
+                    .handler((req) => ({
+                        tenant: req.context.tenant,
+                        retries: req.headers["x-retries"],
+                        accept: req.headers.accept,
+                    })),
+            );
+
+            const tenant = "3f1c5a52-8f0e-4d4b-9a57-6c0b6f9f3d21";
+            const response = await request(app)
+                .get("/test")
+                .set("X-Tenant-Id", tenant)
+                .set("X-Retries", "3")
+                .set("Accept", "application/json")
+                .expect(200);
+
+            expect(response.body).toEqual({
+                tenant,
+                retries: 3,
+                accept: "application/json",
+            });
+        });
+
+        it("rejects invalid headers", async () => {
+            app.get(
+                "/test",
+                suvidha()
+                    .headers(z.object({ "Idempotency-Key": z.string().min(8) }))
+                    .handler(() => {
+                        // Must not reach here
+                        throw new UnreachableErr();
+                    }),
+            );
+
+            const response = await request(app)
+                .get("/test")
+                .set("Idempotency-Key", "short")
+                .expect(400);
+
+            expect(response.body.errors[0].path).toEqual(["Idempotency-Key"]);
+            expect(mockHandlers.onSchemaErr).toHaveBeenCalled();
+        });
+
+        it("validates cookies parsed from the Cookie header", async () => {
+            app.get(
+                "/test",
+                suvidha()
+                    .cookies(
+                        z.object({
+                            csrf: z.string(),
+                            prefs: z.object({ theme: z.string() }),
+                        }),
+                    )
+                    .handler((req) => req.cookies),
+            );
+
+            const prefs = encodeURIComponent('j:{"theme":"dark"}');
+            const response = await request(app)
+                .get("/test")
+                .set("Cookie", `csrf=token%20value; prefs=${prefs}`)
+                .expect(200);
+
+            expect(response.body).toEqual({
+                csrf: "token value",
+                prefs: { theme: "dark" },
+            });
+        });
+
+        it("parses cookies named after the members of Object", async () => {
+            app.get(
+                "/test",
+                suvidha()
+                    .cookies(
+                        z.object({
+                            toString: z.string(),
+                            constructor: z.string(),
+                        }),
+                    )
+                    .handler((req) => req.cookies),
+            );
+
+            const response = await request(app)
+                .get("/test")
+                .set("Cookie", "toString=a; constructor=b; __proto__=c")
+                .expect(200);
+            expect(response.body).toEqual({ toString: "a", constructor: "b" });
+        });
+
+        it("verifies signed cookies", async () => {
+            const secret = "keyboard cat";
+            const sign = (value: string) =>
+                `s:${value}.` +
+                createHmac("sha256", secret)
+                    .update(value)
+                    .digest("base64")
+                    .replace(/=+$/, "");
+
+            app.get(
+                "/test",
+                suvidha()
+                    .signedCookies(z.object({ session: z.string() }), secret)
+                    .handler((req) => req.signedCookies),
+            );
+
+            const valid = encodeURIComponent(sign("alice"));
+            const response = await request(app)
+                .get("/test")
+                .set("Cookie", `session=${valid}`)
+                .expect(200);
+            expect(response.body).toEqual({ session: "alice" });
+
+            const forged = encodeURIComponent(sign("alice").replace("a", "b"));
+            await request(app)
+                .get("/test")
+                .set("Cookie", `session=${forged}`)
+                .expect(400);
+            expect(
+                mockHandlers.onSchemaErr.mock.calls[0]?.[0].issues[0]?.location,
+            ).toBe("signedCookies");
+        });
     });
 
     describe("Middleware Context", () => {
@@ -131,6 +269,47 @@ describe("Suvidha Library", () => {
             expect(response.body).toEqual({ user: "alice", role: "admin" });
         });
 
+        it("starts with the base context of the instance", async () => {
+            let requests = 0;
+            const base = Suvidha.create(mockHandlers, {
+                context: (req) => ({
+                    requestId: `${req.method}-${++requests}`,
+                    config: { region: "eu" },
+                }),
+            });
+            app.get(
+                "/test",
+                base
+                    .use((req) => ({ region: req.context.config.region }))
+                    .handler((req) => req.context),
+            );
+
+            await request(app)
+                .get("/test")
+                .expect(200, {
+                    requestId: "GET-1",
+                    config: { region: "eu" },
+                    region: "eu",
+                });
+            const response = await request(app).get("/test").expect(200);
+            expect(response.body.requestId).toBe("GET-2");
+        });
+
+        it("handles the errors of the base context with onErr", async () => {
+            app.get(
+                "/test",
+                Suvidha.create(mockHandlers, {
+                    context: (): { requestId: string } => {
+                        throw new Error("No config");
+                    },
+                }).handler(() => {
+                    throw new UnreachableErr();
+                }),
+            );
+
+            await request(app).get("/test").expect(500, { error: "No config" });
+        });
+
         it("middleware completes the response", async () => {
             app.get(
                 "/test",
@@ -167,6 +346,180 @@ describe("Suvidha Library", () => {
             const response = await request(app).get("/test").expect(200);
             expect(response.body).toEqual({ async: true });
         });
+
+        it("runs useIf() middlewares when the predicate holds", async () => {
+            const impersonate = jest.fn(async (req: express.Request) => ({
+                impersonated: req.headers["x-impersonate"] as string,
+            }));
+            app.get(
+                "/test",
+                suvidha()
+                    .use(() => ({ user: "alice" }))
+                    .useIf((req) => "x-impersonate" in req.headers, impersonate)
+                    .handler((req, _) => {
+                        // @ts-expect-error `impersonated` may be undefined
+                        const impersonated: string = req.context.impersonated;
+                        return {
+                            user: req.context.user,
+                            as: req.context.impersonated ?? null,
+                        };
+                    }),
+            );
+
+            await request(app)
+                .get("/test")
+                .expect(200, { user: "alice", as: null });
+            expect(impersonate).not.toHaveBeenCalled();
+
+            await request(app)
+                .get("/test")
+                .set("X-Impersonate", "bob")
+                .expect(200, { user: "alice", as: "bob" });
+            expect(impersonate).toHaveBeenCalledTimes(1);
+        });
+
+        it("runs one of the useWhen() middlewares", async () => {
+            app.get(
+                "/test",
+                suvidha()
+                    .use(() => ({ user: "alice" }))
+                    .useWhen(
+                        async (req) => req.query["as"] !== undefined,
+                        (req) => ({
+                            kind: "impersonated" as const,
+                            impersonator: req.context.user,
+                            user: String(req.query["as"]),
+                        }),
+                        () => ({ kind: "self" as const }),
+                    )
+                    .use((req) =>
+                        req.context.kind === "impersonated"
+                            ? { audit: `${req.context.impersonator} as` }
+                            : { audit: "self" },
+                    )
+                    .handler((req, _) => {
+                        const { kind, user, audit } = req.context;
+                        return kind === "impersonated"
+                            ? { user, audit, by: req.context.impersonator }
+                            : { user, audit };
+                    }),
+            );
+
+            await request(app)
+                .get("/test")
+                .expect(200, { user: "alice", audit: "self" });
+            await request(app)
+                .get("/test?as=bob")
+                .expect(200, { user: "bob", audit: "alice as", by: "alice" });
+        });
+
+        it("stops at a rejected useIf() predicate", async () => {
+            const middleware = jest.fn(() => ({}));
+            app.get(
+                "/test",
+                suvidha()
+                    .useIf(() => {
+                        throw new Error("Predicate failed");
+                    }, middleware)
+                    .handler(() => {
+                        throw new UnreachableErr();
+                    }),
+            );
+
+            await request(app)
+                .get("/test")
+                .expect(500, { error: "Predicate failed" });
+            expect(middleware).not.toHaveBeenCalled();
+        });
+
+        it("runs useAll() middlewares concurrently", async () => {
+            const started: string[] = [];
+            const step =
+                <T extends Context>(name: string, ms: number, context: T) =>
+                async () => {
+                    started.push(name);
+                    await setTimeout(ms);
+                    return context;
+                };
+
+            app.get(
+                "/test",
+                suvidha()
+                    .use(() => ({ source: "use", user: "alice" }))
+                    .useAll([
+                        step("flags", 30, { flags: ["beta"], source: "flags" }),
+                        step("profile", 10, { profile: { age: 30 } }),
+                        async (req) => ({
+                            tenant: `${req.context.user}'s tenant`,
+                            source: "tenant",
+                        }),
+                    ])
+                    .handler((req, _) => {
+                        const age: number = req.context.profile.age;
+                        const flags: string[] = req.context.flags;
+                        // @ts-expect-error Not returned by the middlewares
+                        req.context.config;
+                        return { ...req.context, age, flags };
+                    }),
+            );
+
+            const response = await request(app).get("/test").expect(200);
+            expect(started).toEqual(["flags", "profile"]);
+            expect(response.body).toEqual({
+                user: "alice",
+                flags: ["beta"],
+                profile: { age: 30 },
+                age: 30,
+                tenant: "alice's tenant",
+                source: "tenant",
+            });
+        });
+
+        it("cancels the useAll() middlewares when one throws", async () => {
+            let aborted: unknown;
+            const handler = jest.fn();
+            app.get(
+                "/test",
+                suvidha()
+                    .useAll([
+                        async (_req, _res, signal) => {
+                            await setTimeout(50, undefined, { signal }).catch(
+                                () => (aborted = signal.reason),
+                            );
+                            return { slow: true };
+                        },
+                        async () => {
+                            await setTimeout(5);
+                            throw new Error("Tenant not found");
+                        },
+                    ])
+                    .handler(handler),
+            );
+
+            await request(app)
+                .get("/test")
+                .expect(500, { error: "Tenant not found" });
+            expect(handler).not.toHaveBeenCalled();
+            expect(mockHandlers.onErr).toHaveBeenCalledTimes(1);
+            expect(aborted).toEqual(new Error("Tenant not found"));
+        });
+
+        it("describes conditional middlewares", () => {
+            function admin() {
+                return {};
+            }
+            function reader() {
+                return {};
+            }
+            const { steps } = suvidha()
+                .useIf(() => true, admin)
+                .useWhen(() => true, admin, reader)
+                .describe();
+            expect(steps.map((step: any) => step.name)).toEqual([
+                "admin",
+                "admin | reader",
+            ]);
+        });
     });
 
     describe("Response Handling", () => {
@@ -199,6 +552,76 @@ describe("Suvidha Library", () => {
         });
     });
 
+    describe("Reply Validation", () => {
+        const UserSchema = z.object({ id: z.number(), name: z.string() });
+
+        it("strips fields missing from the reply schema", async () => {
+            app.get(
+                "/test",
+                suvidha()
+                    .reply(UserSchema)
+                    .handler(() => ({
+                        id: 1,
+                        name: "alice",
+                        passwordHash: "secret",
+                    })),
+            );
+
+            const response = await request(app).get("/test").expect(200);
+            expect(response.body).toEqual({ id: 1, name: "alice" });
+        });
+
+        it("validates Http.End bodies per status code", async () => {
+            app.post(
+                "/test",
+                suvidha()
+                    .reply({
+                        200: UserSchema,
+                        201: z.object({ id: z.number() }),
+                    })
+                    .handler(() => Http.Created.body({ id: 1, name: "alice" })),
+            );
+
+            await request(app).post("/test").expect(200);
+            const output = mockHandlers.onComplete.mock.calls[0]?.[0];
+            expect(output).toBeInstanceOf(Http.End);
+            expect((output as Http.End).getStatus()).toBe(201);
+            expect((output as Http.End).getBody()).toEqual({ id: 1 });
+        });
+
+        it("routes mismatches to onErr", async () => {
+            app.get(
+                "/test",
+                suvidha()
+                    .reply({ 200: UserSchema })
+                    .handler(() =>
+                        Http.Accepted.body({ id: 1, name: "alice" }),
+                    ),
+            );
+
+            await request(app).get("/test").expect(500);
+            expect(mockHandlers.onErr.mock.calls[0]?.[0]).toBeInstanceOf(
+                ValidationError,
+            );
+            expect(mockHandlers.onComplete).not.toHaveBeenCalled();
+        });
+
+        it("lets mismatches through when onReplyErr returns", async () => {
+            mockHandlers.onReplyErr = jest.fn();
+            app.get(
+                "/test",
+                suvidha()
+                    .reply(UserSchema)
+                    // @ts-expect-error name is missing
+                    .handler(() => ({ id: 1 })),
+            );
+
+            const response = await request(app).get("/test").expect(200);
+            expect(response.body).toEqual({ id: 1 });
+            expect(mockHandlers.onReplyErr).toHaveBeenCalled();
+        });
+    });
+
     describe("Error Handling", () => {
         it("handles handler errors with onErr", async () => {
             app.get(
@@ -374,6 +797,534 @@ describe("Suvidha Library", () => {
         });
     });
 
+    describe("Cancellation", () => {
+        it("aborts the signal when the timeout elapses", async () => {
+            app.get(
+                "/test",
+                Suvidha.create(mockHandlers, { timeout: 20 })
+                    .use(async (req) => {
+                        await setTimeout(1000, undefined, {
+                            signal: req.signal,
+                        });
+                        return {};
+                    })
+                    .handler(() => {
+                        throw new UnreachableErr();
+                    }),
+            );
+
+            await request(app).get("/test").expect(500);
+            expect(mockHandlers.onErr).toHaveBeenCalledWith(
+                expect.any(Http.ServiceUnavailable),
+                expect.anything(),
+                expect.anything(),
+            );
+        });
+
+        it("stops the pipeline between steps once aborted", async () => {
+            const middleware = jest.fn(() => ({}));
+            const handler = jest.fn();
+            app.get(
+                "/test",
+                Suvidha.create(mockHandlers, { timeout: 10 })
+                    .use(async () => {
+                        await setTimeout(30);
+                        return {};
+                    })
+                    .use(middleware)
+                    .handler(handler),
+            );
+
+            await request(app).get("/test").expect(500);
+            expect(middleware).not.toHaveBeenCalled();
+            expect(handler).not.toHaveBeenCalled();
+        });
+
+        it("gives the handler the signal of the request", async () => {
+            app.get(
+                "/test",
+                suvidha().handler((req) => ({ aborted: req.signal.aborted })),
+            );
+
+            await request(app).get("/test").expect(200, { aborted: false });
+        });
+
+        it("does not respond once the client closed the connection", async () => {
+            const handler = jest.fn();
+            let aborted!: () => void;
+            const closed = new Promise<void>((resolve) => (aborted = resolve));
+            app.get(
+                "/test",
+                suvidha()
+                    .use(async (req) => {
+                        req.signal.addEventListener("abort", aborted);
+                        await setTimeout(1000, undefined, {
+                            signal: req.signal,
+                        });
+                        return {};
+                    })
+                    .handler(handler),
+            );
+
+            const server = app.listen(0);
+            const { port } = server.address() as AddressInfo;
+            const client = http.get({ port, path: "/test" });
+            client.on("error", () => {});
+            await setTimeout(20);
+            client.destroy();
+
+            await closed;
+            await setTimeout(10);
+            server.close();
+
+            expect(handler).not.toHaveBeenCalled();
+            expect(mockHandlers.onErr).not.toHaveBeenCalled();
+            expect(mockHandlers.onPostResponse).not.toHaveBeenCalled();
+            expect(mockHandlers.onComplete).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("Readonly Context", () => {
+        class Logger {
+            level = "info";
+            log(message: string) {
+                return `[${this.level}] ${message}`;
+            }
+        }
+
+        const guarded = () =>
+            Suvidha.create(mockHandlers, { guardContext: true })
+                .use(() => ({
+                    user: { name: "Alice", roles: ["reader"] },
+                    logger: new Logger(),
+                    since: new Date(0),
+                }))
+                .use((req) => ({
+                    admin: req.context.user.roles[0] === "admin",
+                }));
+
+        it("throws with the path of the modified member", async () => {
+            app.get(
+                "/name",
+                guarded().handler((req) => {
+                    (req.context.user as { name: string }).name = "Bob";
+                }),
+            );
+            app.get(
+                "/roles",
+                guarded().handler((req) => {
+                    (req.context.user.roles as string[]).push("admin");
+                }),
+            );
+
+            await request(app).get("/name").expect(500, {
+                error: 'Suvidha: cannot modify "req.context.user.name", the context is readonly.',
+            });
+            await request(app).get("/roles").expect(500, {
+                error: 'Suvidha: cannot modify "req.context.user.roles.1", the context is readonly.',
+            });
+            expect(mockHandlers.onErr).toHaveBeenCalledWith(
+                expect.any(TypeError),
+                expect.anything(),
+                expect.anything(),
+            );
+        });
+
+        it("leaves Dates and class instances modifiable", async () => {
+            app.get(
+                "/test",
+                guarded().handler((req) => {
+                    req.context.logger.level = "debug";
+                    req.context.since.setFullYear(2000);
+                    return {
+                        ...req.context,
+                        user: req.context.user === req.context.user,
+                    };
+                }),
+            );
+
+            const response = await request(app).get("/test").expect(200);
+            expect(response.body).toEqual({
+                user: true,
+                admin: false,
+                logger: { level: "debug" },
+                since: new Date(0).toISOString().replace("1970", "2000"),
+            });
+        });
+
+        it("types the context as readonly recursively", () => {
+            type Ctx = DeepReadonly<{
+                user: { name: string; roles: string[] };
+                scores: Map<string, { value: number }>;
+                since: Date;
+                logger: Logger;
+            }>;
+
+            const mutate = (ctx: Ctx) => {
+                // @ts-expect-error Nested members are readonly
+                ctx.user.name = "Bob";
+                // @ts-expect-error Arrays are readonly
+                ctx.user.roles.push("admin");
+                // @ts-expect-error Maps are readonly
+                ctx.scores.set("math", { value: 1 });
+                // @ts-expect-error The values of Maps are readonly
+                ctx.scores.get("math")!.value = 2;
+                ctx.since.setFullYear(2000);
+                ctx.logger.level = "debug";
+            };
+            expect(mutate).toBeInstanceOf(Function);
+        });
+
+        it("types the context carrying functions as readonly recursively", () => {
+            type Ctx = DeepReadonly<{
+                user: { name: string };
+                log: (message: string) => void;
+                audit: { entries: string[]; flush: () => void };
+            }>;
+
+            const mutate = (ctx: Ctx) => {
+                // @ts-expect-error Function properties don't make a class instance
+                ctx.user.name = "Bob";
+                // @ts-expect-error Nested plain objects are readonly as well
+                ctx.audit.entries = [];
+                ctx.log("read");
+                ctx.audit.flush();
+            };
+            expect(mutate).toBeInstanceOf(Function);
+        });
+    });
+
+    describe("Scoped Resources", () => {
+        it("disposes the resources in reverse order after the response", async () => {
+            const disposed: [string, Outcome][] = [];
+            app.get(
+                "/test",
+                suvidha()
+                    .use(() => ({
+                        tx: "tx",
+                        [Symbol.asyncDispose]: async (outcome: Outcome) => {
+                            disposed.push(["tx", outcome]);
+                        },
+                    }))
+                    .use(() => ({ flags: ["beta"] }))
+                    .use(() => ({
+                        lock: "lock",
+                        [Symbol.dispose]: (outcome: Outcome) => {
+                            disposed.push(["lock", outcome]);
+                        },
+                    }))
+                    .handler((req) => {
+                        // @ts-expect-error The disposer is not in the context
+                        req.context[Symbol.dispose];
+                        expect(disposed).toEqual([]);
+                        return Object.getOwnPropertySymbols(req.context);
+                    }),
+            );
+
+            await request(app).get("/test").expect(200, []);
+            await setTimeout(10);
+            const success = { type: "success", status: 200 };
+            expect(disposed).toEqual([
+                ["lock", success],
+                ["tx", success],
+            ]);
+        });
+
+        it("keeps the union contexts of the middlewares apart", async () => {
+            app.get(
+                "/test",
+                suvidha()
+                    .use((req) =>
+                        req.query["kind"] === "a"
+                            ? { kind: "a" as const, a: 1 }
+                            : { kind: "b" as const, b: "b" },
+                    )
+                    .handler((req) => {
+                        const { context } = req;
+                        if (context.kind === "a") {
+                            const a: number = context.a;
+                            return a;
+                        }
+                        const b: string = context.b;
+                        return b;
+                    }),
+            );
+
+            await request(app).get("/test?kind=a").expect(200, "1");
+            await request(app).get("/test?kind=b").expect(200, '"b"');
+        });
+
+        it("gives the disposers the outcome of the request", async () => {
+            const outcomes: Outcome[] = [];
+            const route = (error: unknown) =>
+                suvidha()
+                    .use(() => ({
+                        [Symbol.asyncDispose]: async (outcome: Outcome) => {
+                            outcomes.push(outcome);
+                        },
+                    }))
+                    .handler(() => {
+                        throw error;
+                    });
+            const notFound = new Http.NotFound();
+            const error = new Error("Deadlock");
+            app.get("/not-found", route(notFound));
+            app.get("/error", route(error));
+
+            await request(app).get("/not-found").expect(500);
+            await request(app).get("/error").expect(500);
+            await setTimeout(10);
+            expect(outcomes).toEqual([
+                { type: "fail", status: 404, error: notFound },
+                { type: "error", error },
+            ]);
+        });
+
+        it("reports the failures of the disposers to onPostResponse", async () => {
+            const disposed = jest.fn();
+            const failure = new Error("Rollback failed");
+            app.get(
+                "/test",
+                suvidha()
+                    .use(() => ({ [Symbol.asyncDispose]: disposed }))
+                    .use(() => ({
+                        [Symbol.asyncDispose]: async () => {
+                            throw failure;
+                        },
+                    }))
+                    .handler(() => "done"),
+            );
+
+            await request(app).get("/test").expect(200);
+            await setTimeout(10);
+            expect(mockHandlers.onPostResponse).toHaveBeenCalledWith(
+                failure,
+                expect.anything(),
+                expect.anything(),
+            );
+            expect(disposed).toHaveBeenCalledTimes(1);
+        });
+
+        it("does not reject when reporting the failures of the disposers fails", async () => {
+            const unhandled = jest.fn();
+            process.on("unhandledRejection", unhandled);
+            const failure = new UnreachableErr("Rollback failed");
+            app.get(
+                "/test",
+                suvidha()
+                    .use(() => ({
+                        [Symbol.asyncDispose]: async () => {
+                            throw failure;
+                        },
+                    }))
+                    .handler(() => "done"),
+            );
+
+            await request(app).get("/test").expect(200);
+            await setTimeout(10);
+            process.off("unhandledRejection", unhandled);
+            expect(unhandled).not.toHaveBeenCalled();
+            // The failure of the report is reported once more
+            expect(mockHandlers.onPostResponse).toHaveBeenCalledTimes(2);
+            expect(mockHandlers.onPostResponse).toHaveBeenLastCalledWith(
+                failure,
+                expect.anything(),
+                expect.anything(),
+            );
+        });
+
+        it("disposes the resources once the handler settles after a disconnect", async () => {
+            const events: string[] = [];
+            let settled!: () => void;
+            const disposed = new Promise<void>(
+                (resolve) => (settled = resolve),
+            );
+            app.get(
+                "/test",
+                suvidha()
+                    .use(() => ({
+                        [Symbol.asyncDispose]: async (outcome: Outcome) => {
+                            events.push(`disposed: ${outcome.type}`);
+                            settled();
+                        },
+                    }))
+                    .handler(async () => {
+                        await setTimeout(50);
+                        events.push("handled");
+                    }),
+            );
+
+            const server = app.listen(0);
+            const { port } = server.address() as AddressInfo;
+            const client = http.get({ port, path: "/test" });
+            client.on("error", () => {});
+            await setTimeout(20);
+            client.destroy();
+
+            await disposed;
+            server.close();
+            expect(events).toEqual(["handled", "disposed: error"]);
+        });
+
+        it("disposes the resources of useAll() middlewares on failure", async () => {
+            const disposed = jest.fn();
+            app.get(
+                "/test",
+                suvidha()
+                    .useAll([
+                        () => ({ [Symbol.asyncDispose]: disposed }),
+                        async () => {
+                            await setTimeout(5);
+                            throw new Error("Tenant not found");
+                        },
+                    ])
+                    .handler(() => {
+                        throw new UnreachableErr();
+                    }),
+            );
+
+            await request(app).get("/test").expect(500);
+            await setTimeout(10);
+            expect(disposed).toHaveBeenCalledWith({
+                type: "error",
+                error: new Error("Tenant not found"),
+            });
+        });
+    });
+
+    describe("Express Middleware", () => {
+        type User = { id: string };
+
+        const passport: express.RequestHandler = (req, _, next) => {
+            setTimeout(5).then(() => {
+                if (!req.headers.authorization) {
+                    return next(new Error("Unauthorized"));
+                }
+                (req as any).user = { id: "u1" };
+                next();
+            });
+        };
+
+        it("maps what the middleware attached into the context", async () => {
+            const authenticate = Suvidha.fromExpress(passport, (req) => ({
+                user: (req as any).user as User,
+            }));
+            const chain = suvidha().use(authenticate);
+            app.get(
+                "/me",
+                chain.handler((req) => req.context.user.id),
+            );
+
+            const response = await request(app)
+                .get("/me")
+                .set("Authorization", "Bearer token")
+                .expect(200);
+            expect(response.body).toBe("u1");
+            expect(chain.describe().steps).toEqual([
+                { type: "use", name: "passport", middleware: authenticate },
+            ]);
+        });
+
+        it("handles the error passed to next() with onErr", async () => {
+            app.get(
+                "/me",
+                suvidha()
+                    .use(Suvidha.fromExpress(passport))
+                    .handler(() => {
+                        throw new UnreachableErr();
+                    }),
+            );
+
+            const response = await request(app).get("/me").expect(500);
+            expect(response.body).toEqual({ error: "Unauthorized" });
+            expect(mockHandlers.onErr).toHaveBeenCalledWith(
+                new Error("Unauthorized"),
+                expect.anything(),
+                expect.anything(),
+            );
+        });
+
+        it("stops once the middleware ended the response", async () => {
+            const cors: express.RequestHandler = (req, res, next) => {
+                res.setHeader("Access-Control-Allow-Origin", "*");
+                if (req.method === "OPTIONS") {
+                    res.status(204).end();
+                    return;
+                }
+                next();
+            };
+            const middleware = jest.fn(() => ({}));
+            app.all(
+                "/books",
+                suvidha()
+                    .use(Suvidha.fromExpress(cors))
+                    .use(middleware)
+                    .handler(() => "books"),
+            );
+
+            await request(app)
+                .options("/books")
+                .expect(204)
+                .expect("Access-Control-Allow-Origin", "*");
+            expect(middleware).not.toHaveBeenCalled();
+
+            await request(app)
+                .get("/books")
+                .expect(200, '"books"')
+                .expect("Access-Control-Allow-Origin", "*");
+            expect(middleware).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe("Reusable Chains", () => {
+        it("does not leak the steps of a route into other routes", async () => {
+            const authenticate = jest.fn(() => ({ user: "admin" }));
+            const authed = suvidha().use(authenticate);
+
+            const tenant = authed.use(() => ({ tenant: "acme" }));
+            app.post(
+                "/books",
+                tenant
+                    .body(z.object({ name: z.string() }))
+                    .handler((req) => ({ ...req.context, ...req.body })),
+            );
+            app.get(
+                "/books",
+                authed
+                    .query(z.object({ page: z.coerce.number() }))
+                    .handler((req) => ({ ...req.context, ...req.query })),
+            );
+            app.get(
+                "/me",
+                authed.handler((req) => req.context),
+            );
+
+            await request(app)
+                .post("/books")
+                .send({ name: "Dune" })
+                .expect(200, { user: "admin", tenant: "acme", name: "Dune" });
+            await request(app)
+                .get("/books?page=2")
+                .expect(200, { user: "admin", page: 2 });
+            await request(app).get("/me").expect(200, { user: "admin" });
+
+            expect(authenticate).toHaveBeenCalledTimes(3);
+            expect(authed.describe().steps).toHaveLength(1);
+        });
+
+        it("returns a new builder from every chain method", () => {
+            const base = suvidha();
+            const route = base
+                .params(z.object({ id: z.string() }))
+                .reply(z.object({ id: z.string() }))
+                .throws(Http.NotFound);
+
+            expect(route).not.toBe(base);
+            expect(base.describe()).toEqual({ steps: [], throws: [] });
+            expect(route.describe().throws).toEqual([Http.NotFound]);
+        });
+    });
+
     describe("Edge Cases", () => {
         it("stops parsing after first validation error", async () => {
             app.post(
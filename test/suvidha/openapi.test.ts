@@ -0,0 +1,286 @@
+import express from "express";
+import { z } from "zod";
+import { Suvidha } from "../../src/suvidha";
+import { DefaultHandlers } from "../../src/defaultHandlers";
+import { Http } from "../../src/http";
+import { RouteRegistry } from "../../src/registry";
+import { generateOpenApi } from "../../src/openapi";
+
+const request = require("supertest");
+
+describe("Suvidha Library - OpenAPI", () => {
+    let app: express.Express;
+    let registry: RouteRegistry;
+
+    const suvidha = () => Suvidha.create(DefaultHandlers.create());
+
+    const BookSchema = z.object({
+        id: z.number().int(),
+        name: z.string().min(1).describe("The title of the book"),
+        tags: z.array(z.string()).default([]),
+    });
+
+    beforeEach(() => {
+        app = express();
+        app.use(express.json());
+        registry = RouteRegistry.create(app);
+
+        registry.get(
+            "/books/:id",
+            suvidha()
+                .params(z.object({ id: z.coerce.number() }))
+                .query(z.object({ fields: z.array(z.string()).optional() }))
+                .reply(BookSchema)
+                .throws(Http.NotFound)
+                .handler((req) => ({
+                    id: req.params.id,
+                    name: "Dune",
+                    tags: [],
+                })),
+            { summary: "Finds a book", tags: ["books"] },
+        );
+
+        registry.post(
+            "/books",
+            suvidha()
+                .headers(z.object({ "X-Tenant-Id": z.string().uuid() }))
+                .body(BookSchema.omit({ id: true }))
+                .reply({ 201: BookSchema })
+                .throws(Http.Conflict, Http.Unauthorized)
+                .handler((req) => Http.Created.body({ id: 1, ...req.body })),
+            { summary: "Creates a book", tags: ["books"] },
+        );
+
+        registry.get(
+            "/health",
+            suvidha().handler(() => "ok"),
+        );
+    });
+
+    it("mounts the recorded routes", async () => {
+        const response = await request(app).get("/books/7").expect(200);
+        expect(response.body.data).toEqual({ id: 7, name: "Dune", tags: [] });
+    });
+
+    it("documents the routes", () => {
+        const document = generateOpenApi(registry, {
+            info: { title: "Books", version: "1.0.0" },
+        });
+
+        expect(document.openapi).toBe("3.1.0");
+        expect(Object.keys(document.paths)).toEqual([
+            "/books/{id}",
+            "/books",
+            "/health",
+        ]);
+
+        const find = document.paths["/books/{id}"]!["get"]!;
+        expect(find.summary).toBe("Finds a book");
+        expect(find.tags).toEqual(["books"]);
+        expect(find.parameters).toEqual([
+            {
+                name: "id",
+                in: "path",
+                required: true,
+                schema: { type: "number" },
+            },
+            {
+                name: "fields",
+                in: "query",
+                required: false,
+                schema: { type: "array", items: { type: "string" } },
+            },
+        ]);
+        expect(Object.keys(find.responses)).toEqual(["200", "400", "404"]);
+        expect(find.responses["200"]).toEqual({
+            description: "OK",
+            content: {
+                "application/json": {
+                    schema: {
+                        type: "object",
+                        properties: {
+                            status: { const: "success" },
+                            data: {
+                                type: "object",
+                                properties: {
+                                    id: { type: "integer" },
+                                    name: {
+                                        type: "string",
+                                        minLength: 1,
+                                        description: "The title of the book",
+                                    },
+                                    tags: {
+                                        type: "array",
+                                        items: { type: "string" },
+                                        default: [],
+                                    },
+                                },
+                                required: ["id", "name", "tags"],
+                            },
+                            meta: { type: "object" },
+                        },
+                        required: ["status", "data", "meta"],
+                    },
+                },
+            },
+        });
+        expect(
+            find.responses["404"]!.content!["application/json"]!.schema,
+        ).toMatchObject({
+            properties: {
+                status: { const: "fail" },
+                data: { examples: ["Not Found"] },
+            },
+        });
+
+        const create = document.paths["/books"]!["post"]!;
+        expect(create.parameters).toEqual([
+            {
+                name: "X-Tenant-Id",
+                in: "header",
+                required: true,
+                schema: { type: "string", format: "uuid" },
+            },
+        ]);
+        expect(create.requestBody).toEqual({
+            required: true,
+            content: {
+                "application/json": {
+                    schema: {
+                        type: "object",
+                        properties: {
+                            name: {
+                                type: "string",
+                                minLength: 1,
+                                description: "The title of the book",
+                            },
+                            tags: {
+                                type: "array",
+                                items: { type: "string" },
+                                default: [],
+                            },
+                        },
+                        required: ["name"],
+                    },
+                },
+            },
+        });
+        expect(Object.keys(create.responses)).toEqual([
+            "201",
+            "400",
+            "401",
+            "409",
+        ]);
+
+        const health = document.paths["/health"]!["get"]!;
+        expect(Object.keys(health.responses)).toEqual(["200"]);
+    });
+
+    it("documents unwrapped responses without the envelope", () => {
+        const document = generateOpenApi(registry, {
+            info: { title: "Books", version: "1.0.0" },
+            envelope: false,
+            schemaErrStatus: 422,
+        });
+
+        const find = document.paths["/books/{id}"]!["get"]!;
+        expect(Object.keys(find.responses)).toEqual(["200", "404", "422"]);
+        expect(
+            find.responses["200"]!.content!["application/json"]!.schema,
+        ).toMatchObject({ type: "object", required: ["id", "name", "tags"] });
+    });
+
+    it("documents the validation errors along with a thrown 400", () => {
+        registry.put(
+            "/books/:id",
+            suvidha()
+                .body(BookSchema)
+                .throws(Http.BadRequest)
+                .handler(() => "ok"),
+        );
+
+        const document = generateOpenApi(registry, {
+            info: { title: "Books", version: "1.0.0" },
+            envelope: false,
+        });
+
+        const update = document.paths["/books/{id}"]!["put"]!;
+        const { schema } =
+            update.responses["400"]!.content!["application/json"]!;
+        expect(schema["oneOf"]).toEqual([
+            expect.objectContaining({ required: ["message", "errors"] }),
+            { examples: ["Bad Request"] },
+        ]);
+    });
+
+    it("documents recursive schemas as components", () => {
+        type Category = { name: string; children: Category[] };
+        const CategorySchema: z.ZodType<Category> = z.lazy(() =>
+            z.object({ name: z.string(), children: z.array(CategorySchema) }),
+        );
+
+        registry.post(
+            "/categories",
+            suvidha()
+                .body(CategorySchema)
+                .reply(CategorySchema)
+                .handler((req) => req.body),
+        );
+
+        const document = generateOpenApi(registry, {
+            info: { title: "Books", version: "1.0.0" },
+            envelope: false,
+        });
+
+        const create = document.paths["/categories"]!["post"]!;
+        expect(create.requestBody!.content["application/json"]).toEqual({
+            schema: { $ref: "#/components/schemas/Recursive1" },
+        });
+        expect(
+            create.responses["200"]!.content!["application/json"]!.schema,
+        ).toEqual({ $ref: "#/components/schemas/Recursive2" });
+        expect(Object.keys(document.components!.schemas)).toEqual([
+            "Recursive1",
+            "Recursive2",
+        ]);
+        expect(document.components!.schemas["Recursive1"]).toMatchObject({
+            properties: {
+                children: {
+                    items: { $ref: "#/components/schemas/Recursive1" },
+                },
+            },
+        });
+    });
+
+    it("documents multipart uploads", () => {
+        registry.post(
+            "/books/:id/cover",
+            suvidha()
+                .body(z.object({ caption: z.string() }))
+                .files({ cover: { mimeTypes: ["image/png"], required: true } })
+                .handler(() => ({})),
+        );
+
+        const document = generateOpenApi(registry, {
+            info: { title: "Books", version: "1.0.0" },
+        });
+
+        const upload = document.paths["/books/{id}/cover"]!["post"]!;
+        expect(upload.requestBody!.content).toEqual({
+            "multipart/form-data": {
+                schema: {
+                    type: "object",
+                    properties: {
+                        caption: { type: "string" },
+                        cover: {
+                            type: "string",
+                            contentMediaType: "application/octet-stream",
+                        },
+                    },
+                    required: ["caption", "cover"],
+                },
+                encoding: { cover: { contentType: "image/png" } },
+            },
+        });
+    });
+});
@@ -0,0 +1,601 @@
+import express from "express";
+import { z } from "zod";
+import { Suvidha } from "../../src/suvidha";
+import { Handlers } from "../../src/Handlers";
+import { DefaultHandlers } from "../../src/defaultHandlers";
+import {
+    registerAdapter,
+    StandardSchemaV1,
+    ValidationError,
+} from "../../src/validation";
+import { setTimeout } from "timers/promises";
+
+const request = require("supertest");
+
+/**
+ * A minimal Standard Schema, as implemented by Valibot, ArkType, ...
+ */
+function positiveInt(): StandardSchemaV1<unknown, { count: number }> {
+    return {
+        "~standard": {
+            version: 1,
+            vendor: "test",
+            async validate(value) {
+                const count = Number((value as any)?.count);
+                if (Number.isInteger(count) && count > 0) {
+                    return { value: { count } };
+                }
+                return {
+                    issues: [
+                        {
+                            message: "Expected a positive integer",
+                            path: [{ key: "count" }],
+                        },
+                    ],
+                };
+            },
+        },
+    };
+}
+
+/**
+ * A schema of a library that doesn't implement Standard Schema, as Joi.
+ */
+class Rule {
+    constructor(readonly check: (value: unknown) => string | undefined) {}
+}
+
+declare module "../../src" {
+    interface CustomSchemas {
+        rule: Rule;
+    }
+}
+
+registerAdapter<Rule>({
+    accepts(schema): schema is Rule {
+        return schema instanceof Rule;
+    },
+    validate(schema, data) {
+        const message = schema.check(data);
+        if (message === undefined) return { success: true, data };
+        return {
+            success: false,
+            issues: [{ path: [], message, code: "rule" }],
+        };
+    },
+});
+
+describe("Suvidha Library - Validation", () => {
+    let app: express.Express;
+    let mockHandlers: jest.Mocked<Handlers>;
+
+    beforeEach(() => {
+        app = express();
+        app.use(express.json());
+
+        // Mock Handlers implementation
+        mockHandlers = {
+            onSchemaErr: jest.fn().mockImplementation((err, conn, _) => {
+                conn.res.status(400).json({ errors: err.issues });
+            }),
+            onComplete: jest.fn().mockImplementation((output, conn, _) => {
+                conn.res.status(200).json(output);
+            }),
+            onErr: jest.fn().mockImplementation((err, conn, _) => {
+                conn.res.status(500).json({ error: err.message });
+            }),
+            onPostResponse: jest.fn(),
+        };
+    });
+
+    const suvidha = () => Suvidha.create(mockHandlers);
+
+    it("validates Standard Schemas", async () => {
+        app.get(
+            "/test",
+            suvidha()
+                .query(positiveInt())
+                .handler((req) => ({ double: req.query.count * 2 })),
+        );
+
+        const response = await request(app).get("/test?count=21").expect(200);
+        expect(response.body).toEqual({ double: 42 });
+    });
+
+    it("normalizes Standard Schema issues", async () => {
+        app.get(
+            "/test",
+            suvidha()
+                .query(positiveInt())
+                .handler(() => ({})),
+        );
+
+        const response = await request(app).get("/test?count=-1").expect(400);
+        expect(response.body.errors).toEqual([
+            {
+                location: "query",
+                path: ["count"],
+                message: "Expected a positive integer",
+                code: "invalid",
+            },
+        ]);
+    });
+
+    it("validates schemas with the registered adapters", async () => {
+        const named = new Rule((value) =>
+            typeof (value as any)?.name === "string"
+                ? undefined
+                : "Expected a name",
+        );
+        app.post(
+            "/test",
+            suvidha()
+                .body(named)
+                .handler((req) => {
+                    const body: unknown = req.body;
+                    return body;
+                }),
+        );
+
+        await request(app)
+            .post("/test")
+            .send({ name: "Alice" })
+            .expect(200, { name: "Alice" });
+        const response = await request(app).post("/test").send({}).expect(400);
+        expect(response.body.errors).toEqual([
+            {
+                location: "body",
+                path: [],
+                message: "Expected a name",
+                code: "rule",
+            },
+        ]);
+    });
+
+    it("normalizes Zod issues", async () => {
+        app.post(
+            "/test",
+            suvidha()
+                .body(z.object({ user: z.object({ name: z.string() }) }))
+                .handler(() => ({})),
+        );
+
+        await request(app)
+            .post("/test")
+            .send({ user: { name: 1 } })
+            .expect(400);
+
+        const err = mockHandlers.onSchemaErr.mock.calls[0]?.[0];
+        expect(err).toBeInstanceOf(ValidationError);
+        expect(err?.issues).toEqual([
+            {
+                location: "body",
+                path: ["user", "name"],
+                message: "Expected string, received number",
+                code: "invalid_type",
+                expected: "string",
+                received: "number",
+            },
+        ]);
+        expect(err?.cause).toBeInstanceOf(z.ZodError);
+    });
+
+    it("supports async refinements and transforms", async () => {
+        const registered = new Set(["taken@example.com"]);
+        const UserSchema = z.object({
+            email: z
+                .string()
+                .email()
+                .refine(async (email) => {
+                    await setTimeout(10);
+                    return !registered.has(email);
+                }, "Email is already registered")
+                .transform(async (email) => email.toUpperCase()),
+        });
+
+        app.post(
+            "/test",
+            suvidha()
+                .body(UserSchema)
+                .handler((req) => req.body),
+        );
+
+        const response = await request(app)
+            .post("/test")
+            .send({ email: "new@example.com" })
+            .expect(200);
+        expect(response.body).toEqual({ email: "NEW@EXAMPLE.COM" });
+
+        const rejected = await request(app)
+            .post("/test")
+            .send({ email: "taken@example.com" })
+            .expect(400);
+        expect(rejected.body.errors[0]).toMatchObject({
+            location: "body",
+            path: ["email"],
+            message: "Email is already registered",
+        });
+    });
+
+    it("routes errors thrown by async refinements to onErr", async () => {
+        app.post(
+            "/test",
+            suvidha()
+                .body(
+                    z.object({ name: z.string() }).refine(async () => {
+                        await setTimeout(10);
+                        throw new Error("Database is down");
+                    }),
+                )
+                .handler(() => ({})),
+        );
+
+        const response = await request(app)
+            .post("/test")
+            .send({ name: "valid" })
+            .expect(500);
+
+        expect(response.body.error).toBe("Database is down");
+        expect(mockHandlers.onSchemaErr).not.toHaveBeenCalled();
+    });
+
+    it("routes errors thrown by schemas to onErr", async () => {
+        app.post(
+            "/test",
+            suvidha()
+                .body(
+                    z.object({ name: z.string() }).refine(() => {
+                        throw new Error("Database is down");
+                    }),
+                )
+                .handler(() => ({})),
+        );
+
+        const response = await request(app)
+            .post("/test")
+            .send({ name: "valid" })
+            .expect(500);
+
+        expect(response.body.error).toBe("Database is down");
+        expect(mockHandlers.onSchemaErr).not.toHaveBeenCalled();
+    });
+});
+
+describe("Suvidha Library - Aggregated Validation", () => {
+    let app: express.Express;
+    let mockHandlers: jest.Mocked<Handlers>;
+
+    beforeEach(() => {
+        app = express();
+        app.use(express.json());
+
+        // Mock Handlers implementation
+        mockHandlers = {
+            onSchemaErr: jest.fn().mockImplementation((err, conn, _) => {
+                conn.res.status(400).json({ errors: err.byLocation() });
+            }),
+            onComplete: jest.fn().mockImplementation((output, conn, _) => {
+                conn.res.status(200).json(output);
+            }),
+            onErr: jest.fn().mockImplementation((err, conn, _) => {
+                conn.res.status(500).json({ error: err.message });
+            }),
+            onPostResponse: jest.fn(),
+        };
+    });
+
+    const suvidha = () =>
+        Suvidha.create(mockHandlers, { aggregateErrors: true });
+
+    it("reports the issues of every request data at once", async () => {
+        app.post(
+            "/test/:id",
+            suvidha()
+                .params(z.object({ id: z.string().uuid() }))
+                .body(z.object({ name: z.string() }))
+                .query(z.object({ page: z.coerce.number() }))
+                .handler(() => ({})),
+        );
+
+        const response = await request(app)
+            .post("/test/invalid-uuid?page=2")
+            .send({ name: 123 })
+            .expect(400);
+
+        expect(mockHandlers.onSchemaErr).toHaveBeenCalledTimes(1);
+        expect(Object.keys(response.body.errors)).toEqual(["params", "body"]);
+        expect(response.body.errors.params[0].path).toEqual(["id"]);
+        expect(response.body.errors.body[0].path).toEqual(["name"]);
+    });
+
+    it("validates request data declared after use() after it runs", async () => {
+        const middleware = jest.fn(() => ({}));
+        app.post(
+            "/test/:id",
+            suvidha()
+                .params(z.object({ id: z.string().uuid() }))
+                .use(middleware)
+                .body(z.object({ name: z.string() }))
+                .handler(() => ({})),
+        );
+
+        const response = await request(app)
+            .post("/test/invalid-uuid")
+            .send({ name: 123 })
+            .expect(400);
+
+        expect(Object.keys(response.body.errors)).toEqual(["params"]);
+        expect(middleware).not.toHaveBeenCalled();
+    });
+});
+
+describe("DefaultHandlers - Validation Errors", () => {
+    let app: express.Express;
+
+    beforeEach(() => {
+        app = express();
+        app.use(express.json());
+    });
+
+    const UserSchema = z.object({
+        name: z.string(),
+        role: z.enum(["admin", "user"]),
+    });
+
+    it("responds with field-level issues", async () => {
+        const suvidha = () => Suvidha.create(DefaultHandlers.create());
+        app.post(
+            "/test",
+            suvidha()
+                .body(UserSchema)
+                .handler(() => ({})),
+        );
+
+        const response = await request(app)
+            .post("/test")
+            .send({ name: 1, role: "root" })
+            .expect(400);
+
+        expect(response.body.data.errors.body).toEqual([
+            {
+                location: "body",
+                path: ["name"],
+                message: "Expected string, received number",
+                code: "invalid_type",
+                expected: "string",
+                received: "number",
+            },
+            {
+                location: "body",
+                path: ["role"],
+                message:
+                    "Invalid enum value. Expected 'admin' | 'user', received 'root'",
+                code: "invalid_enum_value",
+                expected: '"admin" | "user"',
+                received: "root",
+            },
+        ]);
+    });
+
+    it("maps issues and responds with 422", async () => {
+        const suvidha = () =>
+            Suvidha.create(
+                DefaultHandlers.create(undefined, {
+                    schemaErrStatus: 422,
+                    issueMapper: (issue) =>
+                        issue.code === "invalid_enum_value"
+                            ? undefined
+                            : {
+                                  field: issue.path.join("."),
+                                  message: "Invalid",
+                              },
+                }),
+            );
+        app.post(
+            "/test",
+            suvidha()
+                .body(UserSchema)
+                .handler(() => ({})),
+        );
+
+        const response = await request(app)
+            .post("/test")
+            .send({ name: 1, role: "root" })
+            .expect(422);
+
+        expect(response.body.data.errors).toEqual({
+            body: [{ field: "name", message: "Invalid" }],
+        });
+    });
+});
+
+describe("Suvidha Library - Query Coercion", () => {
+    let app: express.Express;
+    let mockHandlers: jest.Mocked<Handlers>;
+
+    beforeEach(() => {
+        app = express();
+
+        // Mock Handlers implementation
+        mockHandlers = {
+            onSchemaErr: jest.fn().mockImplementation((err, conn, _) => {
+                conn.res.status(400).json({ errors: err.issues });
+            }),
+            onComplete: jest.fn().mockImplementation((output, conn, _) => {
+                conn.res.status(200).json(output);
+            }),
+            onErr: jest.fn().mockImplementation((err, conn, _) => {
+                conn.res.status(500).json({ error: err.message });
+            }),
+            onPostResponse: jest.fn(),
+        };
+    });
+
+    const suvidha = () => Suvidha.create(mockHandlers);
+
+    enum Sort {
+        Asc = 1,
+        Desc = -1,
+    }
+
+    const SearchSchema = z.object({
+        page: z.number().int().default(1),
+        active: z.boolean().optional(),
+        since: z.date().optional(),
+        status: z.enum(["draft", "published"]).optional(),
+        sort: z.nativeEnum(Sort).optional(),
+        ids: z.array(z.number()).optional(),
+        tags: z.array(z.string()).optional(),
+        price: z.object({ min: z.number(), max: z.number() }).optional(),
+    });
+
+    it("coerces query values by the schema", async () => {
+        let query: z.infer<typeof SearchSchema> | undefined;
+        app.get(
+            "/test",
+            suvidha()
+                .query(SearchSchema)
+                .handler((req) => {
+                    query = req.query;
+                    return {};
+                }),
+        );
+
+        await request(app)
+            .get(
+                "/test?page=2&active=true&since=2024-01-31&status=draft&sort=-1" +
+                    "&ids=1&ids=2&ids=3&tags=a&tags=b&price[min]=10&price[max]=20",
+            )
+            .expect(200);
+
+        expect(query).toEqual({
+            page: 2,
+            active: true,
+            since: new Date("2024-01-31"),
+            status: "draft",
+            sort: Sort.Desc,
+            ids: [1, 2, 3],
+            tags: ["a", "b"],
+            price: { min: 10, max: 20 },
+        });
+    });
+
+    it("expands bracket notation with the simple query parser", async () => {
+        app.set("query parser", "simple");
+        app.get(
+            "/test",
+            suvidha()
+                .query(SearchSchema)
+                .handler((req) => req.query),
+        );
+
+        const response = await request(app)
+            .get("/test?price[min]=10&price[max]=20&ids[]=1&ids[]=2")
+            .expect(200);
+
+        expect(response.body).toEqual({
+            page: 1,
+            price: { min: 10, max: 20 },
+            ids: [1, 2],
+        });
+    });
+
+    it("splits comma-separated arrays unless disabled", async () => {
+        app.get(
+            "/test",
+            suvidha()
+                .query(SearchSchema)
+                .handler((req) => req.query),
+        );
+        app.get(
+            "/whole",
+            Suvidha.create(mockHandlers, {
+                coerceQuery: { commaSeparated: false },
+            })
+                .query(SearchSchema)
+                .handler((req) => req.query),
+        );
+
+        const response = await request(app).get("/test?ids=1,2,3").expect(200);
+        expect(response.body.ids).toEqual([1, 2, 3]);
+
+        const whole = await request(app).get("/whole?tags=a,b").expect(200);
+        expect(whole.body.tags).toEqual(["a,b"]);
+    });
+
+    it("does not pollute prototypes with bracket notation", async () => {
+        app.set("query parser", "simple");
+        app.get(
+            "/test",
+            suvidha()
+                .query(
+                    z.object({ price: z.object({}).passthrough().optional() }),
+                )
+                .handler((req) => req.query),
+        );
+
+        await request(app)
+            .get(
+                "/test?__proto__[polluted]=yes&constructor[prototype][polluted]=yes" +
+                    "&price[__proto__][polluted]=yes&price[min]=1",
+            )
+            .expect(200, { price: { min: "1" } });
+        expect(({} as Record<string, unknown>)["polluted"]).toBeUndefined();
+    });
+
+    it("reports coercion failures with the raw value", async () => {
+        app.get(
+            "/test",
+            suvidha()
+                .query(SearchSchema)
+                .handler(() => ({})),
+        );
+
+        const response = await request(app)
+            .get("/test?page=two&ids=1,x&active=yes")
+            .expect(400);
+
+        expect(response.body.errors).toEqual([
+            {
+                location: "query",
+                path: ["page"],
+                message: 'Expected number, received "two"',
+                code: "invalid_type",
+                expected: "number",
+                received: "two",
+            },
+            {
+                location: "query",
+                path: ["active"],
+                message: 'Expected boolean, received "yes"',
+                code: "invalid_type",
+                expected: "boolean",
+                received: "yes",
+            },
+            {
+                location: "query",
+                path: ["ids", 1],
+                message: 'Expected number, received "x"',
+                code: "invalid_type",
+                expected: "number",
+                received: "x",
+            },
+        ]);
+    });
+
+    it("validates the raw values when coerceQuery is false", async () => {
+        app.get(
+            "/test",
+            Suvidha.create(mockHandlers, { coerceQuery: false })
+                .query(z.object({ page: z.number() }))
+                .handler(() => ({})),
+        );
+
+        const response = await request(app).get("/test?page=2").expect(400);
+        expect(response.body.errors[0]).toMatchObject({
+            path: ["page"],
+            expected: "number",
+            received: "string",
+        });
+    });
+});
@@ -1,10 +1,22 @@
 import { ZodError } from "zod";
-import { Http, isProtocol } from "../src";
+import { Http, isProtocol, Location } from "../src";
 
-export function onSchemaErr(_output: ZodError) {
-    return Http.BadRequest.body(
-        "Data provided does not meet the required format.",
-    );
+export function onSchemaErr(output: ZodError, location: Location = "body") {
+    return Http.BadRequest.body({
+        message: "Data provided does not meet the required format.",
+        errors: {
+            [location]: output.issues.map((issue) => ({
+                location,
+                path: issue.path,
+                message: issue.message,
+                code: issue.code,
+                ...(issue.code === "invalid_type" && {
+                    expected: issue.expected,
+                    received: issue.received,
+                }),
+            })),
+        },
+    });
 }
 
 export function onComplete(output: unknown) {